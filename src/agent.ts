@@ -1,21 +1,84 @@
-import { END, MemorySaver, START, StateGraph } from "@langchain/langgraph";
+import { END, START, StateGraph } from "@langchain/langgraph";
+import { checkHistoryNode } from "./nodes/check-history.node.js";
+import { coverLetterNode } from "./nodes/cover-letter.node.js";
+import { extractJobPostingNode } from "./nodes/extract-job-posting.node.js";
 import { fillFormNode } from "./nodes/fill-form.node.js";
+import { fitAssessmentNode } from "./nodes/fit-assessment.node.js";
 import { handleAccountNode } from "./nodes/handle-account.node.js";
 import { prepareResourceNode } from "./nodes/prepare-resource.node.js";
+import { recoveryNode, withRecovery } from "./nodes/recovery.node.js";
+import { snapshotFieldsNode } from "./nodes/snapshot-fields.node.js";
 import { submitNode } from "./nodes/submit.node.js";
+import { verifySubmissionNode } from "./nodes/verify-submission.node.js";
 import { stateSchema } from "./states/state.js";
+import { checkpointer } from "./stores/checkpoint.store.js";
+import { withBudgetCheck } from "./utils/budget.js";
 
 export const agent = new StateGraph(stateSchema)
 	.addNode("PrepareResourceNode", prepareResourceNode)
-	.addNode("HandleAccountNode", handleAccountNode)
-	.addNode("FillFormNode", fillFormNode)
-	.addNode("SubmitNode", submitNode, {
-		ends: [END, "FillFormNode"],
+	.addNode(
+		"ExtractJobPostingNode",
+		withRecovery("ExtractJobPostingNode", extractJobPostingNode),
+		{ ends: ["CheckHistoryNode", "RecoveryNode"] },
+	)
+	.addNode("CheckHistoryNode", checkHistoryNode, {
+		ends: [END, "FitAssessmentNode"],
+	})
+	.addNode("FitAssessmentNode", fitAssessmentNode, {
+		ends: [END, "CoverLetterNode"],
+	})
+	.addNode("CoverLetterNode", coverLetterNode, {
+		ends: ["CoverLetterNode", "HandleAccountNode"],
+	})
+	.addNode(
+		"HandleAccountNode",
+		withRecovery("HandleAccountNode", withBudgetCheck(handleAccountNode)),
+		{ ends: [END, "FillFormNode", "RecoveryNode"] },
+	)
+	.addNode(
+		"FillFormNode",
+		withRecovery("FillFormNode", withBudgetCheck(fillFormNode)),
+		{ ends: [END, "SnapshotFieldsNode", "RecoveryNode"] },
+	)
+	.addNode("SnapshotFieldsNode", snapshotFieldsNode)
+	.addNode(
+		"SubmitNode",
+		// Each snapshot round before this one was a review that asked for changes.
+		withRecovery(
+			"SubmitNode",
+			withBudgetCheck(submitNode, {
+				reviewRoundsUsed: (state) => state.reviewRounds ?? 0,
+			}),
+		),
+		{
+			ends: [
+				END,
+				"HandleAccountNode",
+				"FillFormNode",
+				"VerifySubmissionNode",
+				"RecoveryNode",
+			],
+		},
+	)
+	.addNode(
+		"VerifySubmissionNode",
+		withRecovery("VerifySubmissionNode", verifySubmissionNode),
+		{ ends: [END, "FillFormNode", "RecoveryNode"] },
+	)
+	.addNode("RecoveryNode", recoveryNode, {
+		ends: [
+			END,
+			"RecoveryNode",
+			"ExtractJobPostingNode",
+			"HandleAccountNode",
+			"FillFormNode",
+			"SubmitNode",
+			"VerifySubmissionNode",
+		],
 	})
 	.addEdge(START, "PrepareResourceNode")
-	.addEdge("PrepareResourceNode", "HandleAccountNode")
-	.addEdge("HandleAccountNode", "FillFormNode")
-	.addEdge("FillFormNode", "SubmitNode")
+	.addEdge("PrepareResourceNode", "ExtractJobPostingNode")
+	.addEdge("SnapshotFieldsNode", "SubmitNode")
 	.compile({
-		checkpointer: new MemorySaver(),
+		checkpointer,
 	});
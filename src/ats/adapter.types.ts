@@ -0,0 +1,57 @@
+import type { Page } from "@browserbasehq/stagehand";
+import type {
+	AgentStateType,
+	ApplicantDocument,
+	ApplicantProfile,
+} from "../states/state.js";
+
+export type AtsAdapterContext = {
+	page: Page;
+	state: AgentStateType;
+};
+
+export type AtsAccountRequirement = {
+	accountRequired: boolean;
+	existingAccountDetected?: boolean;
+};
+
+/** A form field the adapter knows how to find and fill from the profile. */
+export type AtsFieldMapping = {
+	label: string;
+	selector: string;
+	value: (profile: ApplicantProfile) => string | undefined;
+	kind?: "text" | "select";
+};
+
+/** A file input the adapter knows, with the field label used to pick a document. */
+export type AtsFileInput = {
+	label: string;
+	selector: string;
+	documentKind?: NonNullable<ApplicantDocument["kind"]>;
+};
+
+export type AtsFillResult = {
+	filledFields: string[];
+	uploadedDocuments: string[];
+};
+
+/**
+ * Deterministic handling for one ATS vendor. Every hook is best effort:
+ * whatever an adapter leaves undone (or `undefined`) is handled by the
+ * Stagehand agent as on any other site.
+ */
+export type AtsAdapter = {
+	vendor: string;
+	matchesUrl: (url: string) => boolean;
+	/** Recognizes the ATS from the DOM, for postings on custom domains. */
+	matchesPage?: (page: Page) => Promise<boolean>;
+	/** Moves from the posting to the application form. */
+	openApplication?: (context: AtsAdapterContext) => Promise<void>;
+	detectAccountRequirement?: (
+		context: AtsAdapterContext,
+	) => Promise<AtsAccountRequirement | undefined>;
+	fields: AtsFieldMapping[];
+	fileInputs: AtsFileInput[];
+	/** Clicks the final submit button. Returns false when it is not on the page. */
+	submit?: (context: AtsAdapterContext) => Promise<boolean>;
+};
@@ -0,0 +1,130 @@
+import { resolve } from "node:path";
+import type { Page } from "@browserbasehq/stagehand";
+import { logger } from "../index.js";
+import type { ApplicantDocument } from "../states/state.js";
+import { selectDocumentForInput } from "../utils/documents.js";
+import type {
+	AtsAdapter,
+	AtsAdapterContext,
+	AtsFillResult,
+} from "./adapter.types.js";
+
+function readFileInputState(selector: string): {
+	accept: string;
+	hasFiles: boolean;
+} {
+	const element = document.querySelector(selector);
+	if (!(element instanceof HTMLInputElement)) {
+		return { accept: "", hasFiles: false };
+	}
+	return {
+		accept: element.accept,
+		hasFiles: (element.files?.length ?? 0) > 0,
+	};
+}
+
+export async function isSelectorVisible(
+	page: Page,
+	selector: string,
+): Promise<boolean> {
+	const locator = page.locator(selector).first();
+	return (await locator.count()) > 0 && (await locator.isVisible());
+}
+
+/**
+ * Clicks the first visible element matching the selector. Returns false when
+ * there is none.
+ */
+export async function clickIfVisible(
+	page: Page,
+	selector: string,
+): Promise<boolean> {
+	if (!(await isSelectorVisible(page, selector))) {
+		return false;
+	}
+	await page.locator(selector).first().click();
+	return true;
+}
+
+/**
+ * Fills the adapter's known fields that are on the current page and still
+ * empty, then attaches documents to its known file inputs. Fields already
+ * holding a value are left alone so resumed runs keep the user's edits.
+ */
+export async function fillKnownFields(
+	adapter: AtsAdapter,
+	{ page, state }: AtsAdapterContext,
+	documents: ApplicantDocument[],
+): Promise<AtsFillResult> {
+	const result: AtsFillResult = { filledFields: [], uploadedDocuments: [] };
+	const profile = state.applicantProfile;
+
+	for (const field of profile ? adapter.fields : []) {
+		const value = profile && field.value(profile)?.trim();
+		if (!value) {
+			continue;
+		}
+
+		try {
+			const locator = page.locator(field.selector).first();
+			if (!(await isSelectorVisible(page, field.selector))) {
+				continue;
+			}
+			if (field.kind === "select") {
+				await locator.selectOption(value);
+			} else if (!(await locator.inputValue()).trim()) {
+				await locator.fill(value);
+			} else {
+				continue;
+			}
+			result.filledFields.push(field.label);
+		} catch (error) {
+			logger.warn(
+				{ vendor: adapter.vendor, field: field.label, error },
+				"Unable to fill a known ATS field, leaving it to the agent.",
+			);
+		}
+	}
+
+	for (const fileInput of adapter.fileInputs) {
+		try {
+			const locator = page.locator(fileInput.selector).first();
+			if ((await locator.count()) === 0) {
+				continue;
+			}
+
+			const { accept, hasFiles } = await page.evaluate(
+				readFileInputState,
+				fileInput.selector,
+			);
+			if (hasFiles) {
+				continue;
+			}
+
+			const document = selectDocumentForInput(documents, {
+				fieldLabel: fileInput.label,
+				documentLabel: documents.find(
+					(candidate) => candidate.kind === fileInput.documentKind,
+				)?.label,
+				accept,
+			});
+			if (!document) {
+				continue;
+			}
+
+			await locator.setInputFiles(resolve(document.path));
+			result.uploadedDocuments.push(`${document.label} -> ${fileInput.label}`);
+		} catch (error) {
+			logger.warn(
+				{ vendor: adapter.vendor, field: fileInput.label, error },
+				"Unable to upload to a known ATS file input, leaving it to the agent.",
+			);
+		}
+	}
+
+	logger.info(
+		{ vendor: adapter.vendor, ...result },
+		"Filled known ATS fields deterministically.",
+	);
+	return result;
+}
@@ -0,0 +1,70 @@
+import { detectAtsVendorFromUrl } from "../utils/job-posting.js";
+import type { AtsAdapter } from "./adapter.types.js";
+import { clickIfVisible } from "./fill-fields.js";
+
+export const greenhouseAdapter: AtsAdapter = {
+	vendor: "greenhouse",
+	matchesUrl: (url) => detectAtsVendorFromUrl(url) === "greenhouse",
+	matchesPage: async (page) =>
+		(await page.locator("#grnhse_app, #grnhse_iframe").count()) > 0,
+	openApplication: async ({ page }) => {
+		// Career sites embed the board in an iframe; the form is easier to
+		// drive on the board itself.
+		const iframeUrl = await page.evaluate(
+			() => document.querySelector<HTMLIFrameElement>("#grnhse_iframe")?.src,
+		);
+		if (iframeUrl) {
+			await page.goto(iframeUrl);
+		}
+	},
+	detectAccountRequirement: async () => ({ accountRequired: false }),
+	fields: [
+		{
+			label: "First name",
+			selector: "#first_name",
+			value: (profile) =>
+				profile.contact.preferredName ?? profile.contact.firstName,
+		},
+		{
+			label: "Last name",
+			selector: "#last_name",
+			value: (profile) => profile.contact.lastName,
+		},
+		{
+			label: "Email",
+			selector: "#email",
+			value: (profile) => profile.contact.email,
+		},
+		{
+			label: "Phone",
+			selector: "#phone",
+			value: (profile) => profile.contact.phone,
+		},
+		{
+			label: "LinkedIn profile",
+			selector:
+				'input[aria-label*="LinkedIn" i], input[autocomplete="custom-question-linkedin-profile"]',
+			value: (profile) => profile.links.linkedin,
+		},
+		{
+			label: "Website",
+			selector:
+				'input[aria-label*="Website" i], input[autocomplete="custom-question-website"]',
+			value: (profile) => profile.links.portfolio ?? profile.links.github,
+		},
+	],
+	fileInputs: [
+		{
+			label: "Resume/CV",
+			selector: '#resume, input[type="file"][name="resume"]',
+			documentKind: "resume",
+		},
+		{
+			label: "Cover letter",
+			selector: '#cover_letter, input[type="file"][name="cover_letter"]',
+			documentKind: "cover_letter",
+		},
+	],
+	submit: ({ page }) =>
+		clickIfVisible(page, '#submit_app, button[type="submit"]'),
+};
@@ -0,0 +1,68 @@
+import { detectAtsVendorFromUrl } from "../utils/job-posting.js";
+import type { AtsAdapter } from "./adapter.types.js";
+import { clickIfVisible } from "./fill-fields.js";
+
+export const leverAdapter: AtsAdapter = {
+	vendor: "lever",
+	matchesUrl: (url) => detectAtsVendorFromUrl(url) === "lever",
+	openApplication: async ({ page }) => {
+		// Postings live at /<company>/<id>, their form at /<company>/<id>/apply.
+		const url = new URL(page.url());
+		if (
+			/(^|\.)lever\.co$/.test(url.hostname) &&
+			!url.pathname.replace(/\/$/, "").endsWith("/apply")
+		) {
+			url.pathname = `${url.pathname.replace(/\/$/, "")}/apply`;
+			await page.goto(url.toString());
+		}
+	},
+	detectAccountRequirement: async () => ({ accountRequired: false }),
+	fields: [
+		{
+			label: "Full name",
+			selector: 'input[name="name"]',
+			value: (profile) =>
+				`${profile.contact.preferredName ?? profile.contact.firstName} ${profile.contact.lastName}`,
+		},
+		{
+			label: "Email",
+			selector: 'input[name="email"]',
+			value: (profile) => profile.contact.email,
+		},
+		{
+			label: "Phone",
+			selector: 'input[name="phone"]',
+			value: (profile) => profile.contact.phone,
+		},
+		{
+			label: "Current company",
+			selector: 'input[name="org"]',
+			value: (profile) =>
+				profile.workHistory.find((position) => position.current)?.employer,
+		},
+		{
+			label: "LinkedIn URL",
+			selector: 'input[name="urls[LinkedIn]"]',
+			value: (profile) => profile.links.linkedin,
+		},
+		{
+			label: "GitHub URL",
+			selector: 'input[name="urls[GitHub]"]',
+			value: (profile) => profile.links.github,
+		},
+		{
+			label: "Portfolio URL",
+			selector: 'input[name="urls[Portfolio]"]',
+			value: (profile) => profile.links.portfolio,
+		},
+	],
+	fileInputs: [
+		{
+			label: "Resume/CV",
+			selector: 'input[type="file"][name="resume"]',
+			documentKind: "resume",
+		},
+	],
+	submit: ({ page }) =>
+		clickIfVisible(page, '#btn-submit, button[data-qa="btn-submit"]'),
+};
@@ -0,0 +1,81 @@
+import type { Page } from "@browserbasehq/stagehand";
+import { InvalidArgumentError } from "commander";
+import { logger } from "../index.js";
+import type { AtsAdapter } from "./adapter.types.js";
+import { greenhouseAdapter } from "./greenhouse.adapter.js";
+import { leverAdapter } from "./lever.adapter.js";
+import { workdayAdapter } from "./workday.adapter.js";
+
+const atsAdapters: AtsAdapter[] = [
+	greenhouseAdapter,
+	leverAdapter,
+	workdayAdapter,
+];
+
+export const atsAdapterVendors = atsAdapters.map((adapter) => adapter.vendor);
+
+export type AtsAdapterSelection = {
+	adapter?: AtsAdapter;
+	reason: "override" | "url" | "page" | "disabled" | "none";
+};
+
+export function getAtsAdapter(
+	vendor: string | undefined,
+): AtsAdapter | undefined {
+	return atsAdapters.find((adapter) => adapter.vendor === vendor);
+}
+
+/**
+ * Picks the adapter for a posting: the CLI override, else the first adapter
+ * whose URL pattern matches, else the first that recognizes the page DOM.
+ * The vendor the model extracted is not used, as embedded boards it names
+ * are often in iframes the adapter selectors cannot reach.
+ */
+export async function selectAtsAdapter(options: {
+	override?: string;
+	urls: string[];
+	page: Page;
+}): Promise<AtsAdapterSelection> {
+	if (options.override === "none") {
+		return { reason: "disabled" };
+	}
+	if (options.override && options.override !== "auto") {
+		return { adapter: getAtsAdapter(options.override), reason: "override" };
+	}
+
+	const byUrl = atsAdapters.find((adapter) =>
+		options.urls.some((url) => adapter.matchesUrl(url)),
+	);
+	if (byUrl) {
+		return { adapter: byUrl, reason: "url" };
+	}
+
+	for (const adapter of atsAdapters) {
+		try {
+			if (await adapter.matchesPage?.(options.page)) {
+				return { adapter, reason: "page" };
+			}
+		} catch (error) {
+			logger.debug(
+				{ vendor: adapter.vendor, error },
+				"ATS page detection failed",
+			);
+		}
+	}
+
+	return { reason: "none" };
+}
+
+export function parseAtsOption(value: string): string {
+	const normalized = value.trim().toLowerCase();
+	if (
+		normalized !== "auto" &&
+		normalized !== "none" &&
+		!atsAdapterVendors.includes(normalized)
+	) {
+		throw new InvalidArgumentError(
+			`Invalid ATS adapter: ${value}, use auto, none or one of ${atsAdapterVendors.join(", ")}`,
+		);
+	}
+	return normalized;
+}
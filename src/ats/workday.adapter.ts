@@ -0,0 +1,99 @@
+import { detectAtsVendorFromUrl } from "../utils/job-posting.js";
+import type { AtsAdapter } from "./adapter.types.js";
+import { clickIfVisible, isSelectorVisible } from "./fill-fields.js";
+
+const automationId = (id: string) => `[data-automation-id="${id}"]`;
+
+export const workdayAdapter: AtsAdapter = {
+	vendor: "workday",
+	matchesUrl: (url) => detectAtsVendorFromUrl(url) === "workday",
+	matchesPage: async (page) =>
+		(await page
+			.locator(
+				`${automationId("jobPostingHeader")}, ${automationId("adventureButton")}`,
+			)
+			.count()) > 0,
+	openApplication: async ({ page }) => {
+		if (await clickIfVisible(page, automationId("adventureButton"))) {
+			await page
+				.waitForSelector(automationId("applyManually"), { timeout: 10_000 })
+				.catch(() => false);
+			await clickIfVisible(page, automationId("applyManually"));
+		}
+	},
+	detectAccountRequirement: async ({ page }) => {
+		// Workday always asks for an account, but only the create-account form
+		// says for sure that this is a new one. Sign-in pages are left to the
+		// agent, which can tell whether a returning user is expected.
+		await page
+			.waitForSelector(automationId("createAccountSubmitButton"), {
+				timeout: 10_000,
+			})
+			.catch(() => false);
+		if (
+			await isSelectorVisible(page, automationId("createAccountSubmitButton"))
+		) {
+			return { accountRequired: true, existingAccountDetected: false };
+		}
+		return undefined;
+	},
+	fields: [
+		{
+			label: "Legal first name",
+			selector: automationId("legalNameSection_firstName"),
+			value: (profile) => profile.contact.firstName,
+		},
+		{
+			label: "Legal last name",
+			selector: automationId("legalNameSection_lastName"),
+			value: (profile) => profile.contact.lastName,
+		},
+		{
+			label: "Address line 1",
+			selector: automationId("addressSection_addressLine1"),
+			value: (profile) => profile.address.street,
+		},
+		{
+			label: "City",
+			selector: automationId("addressSection_city"),
+			value: (profile) => profile.address.city,
+		},
+		{
+			label: "Postal code",
+			selector: automationId("addressSection_postalCode"),
+			value: (profile) => profile.address.postalCode,
+		},
+		{
+			label: "Phone number",
+			selector: automationId("phone-number"),
+			// Workday has a separate country code dropdown.
+			value: (profile) => profile.contact.phone?.replace(/^\+1(?=\d{10}$)/, ""),
+		},
+		{
+			label: "Email",
+			selector: `input${automationId("email")}`,
+			value: (profile) => profile.contact.email,
+		},
+	],
+	fileInputs: [
+		{
+			label: "Resume/CV",
+			selector: automationId("file-upload-input-ref"),
+			documentKind: "resume",
+		},
+	],
+	submit: async ({ page }) => {
+		// The same button reads "Next" on every step before the review page.
+		const button = page
+			.locator(automationId("bottom-navigation-next-button"))
+			.first();
+		if (
+			(await button.count()) === 0 ||
+			!/submit/i.test(await button.textContent())
+		) {
+			return false;
+		}
+		await button.click();
+		return true;
+	},
+};
@@ -0,0 +1,65 @@
+import type { Command } from "commander";
+import { logger } from "../index.js";
+import {
+	deleteAnswer,
+	readAnswerBank,
+	type StoredAnswer,
+	saveAnswer,
+} from "../stores/answer-bank.store.js";
+import { formatTable, type TableColumn } from "../utils/table.js";
+
+type AnswerRow = StoredAnswer & { key: string };
+
+const answerColumns: TableColumn<AnswerRow>[] = [
+	{ header: "Key", value: (row) => row.key },
+	{ header: "Question", value: (row) => row.question },
+	{ header: "Answer", value: (row) => row.answer },
+	{ header: "Uses", value: (row) => row.useCount },
+	{ header: "Updated", value: (row) => row.updatedAt },
+];
+
+export function registerAnswersCommand(program: Command): void {
+	const answers = program
+		.command("answers")
+		.description(
+			"Manage the answer bank used to fill recurring application questions.",
+		);
+
+	answers
+		.command("list")
+		.description("List stored answers.")
+		.option("--json", "Print as JSON", false)
+		.action(async (options: { json: boolean }) => {
+			const bank = await readAnswerBank();
+			if (options.json) {
+				console.log(JSON.stringify(bank.answers, null, "\t"));
+				return;
+			}
+
+			const rows = Object.entries(bank.answers)
+				.map(([key, stored]) => ({ key, ...stored }))
+				.sort((a, b) => a.key.localeCompare(b.key));
+			console.log(formatTable(answerColumns, rows));
+		});
+
+	answers
+		.command("edit")
+		.description("Add an answer, or replace the answer to a stored question.")
+		.argument("<question>", "Question text or stored key")
+		.argument("<answer>", "Answer to reuse on future applications")
+		.action(async (question: string, answer: string) => {
+			const key = await saveAnswer(question, answer);
+			logger.info({ key }, "Answer saved");
+		});
+
+	answers
+		.command("delete")
+		.description("Delete a stored answer.")
+		.argument("<question>", "Question text or stored key")
+		.action(async (question: string, _options: unknown, command: Command) => {
+			if (!(await deleteAnswer(question))) {
+				command.error(`error: no stored answer for "${question}"`);
+			}
+			logger.info({ question }, "Answer deleted");
+		});
+}
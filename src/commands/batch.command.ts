@@ -0,0 +1,301 @@
+import { randomUUID } from "node:crypto";
+import { existsSync } from "node:fs";
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, extname, join } from "node:path";
+import { createInterface } from "node:readline/promises";
+import type { Command } from "commander";
+import { atsAdapterVendors, parseAtsOption } from "../ats/registry.js";
+import { logger } from "../index.js";
+import type { ApplicantDocument } from "../states/state.js";
+import {
+	parseCostOption,
+	parseCountOption,
+	resolveBudget,
+} from "../utils/budget.js";
+import { validatePath } from "../utils/cli.js";
+import { appConfig } from "../utils/config.js";
+import { parseDocumentOption } from "../utils/documents.js";
+import { envVars } from "../utils/env.js";
+import { loadInterruptAnswers } from "../utils/interrupt-policy.js";
+import { promptInterruptResumeValue } from "../utils/interrupts.js";
+import { describeJobPosting } from "../utils/job-posting.js";
+import { loadJobQueue } from "../utils/job-queue.js";
+import { type RunStatus, runThread } from "../utils/run-thread.js";
+import { formatCsv, formatTable, type TableColumn } from "../utils/table.js";
+import { formatUsd, getRunUsage, type UsageTotals } from "../utils/usage.js";
+
+type BatchCommandOptions = {
+	resumePath?: string;
+	extraPrompts?: string;
+	summaryOut?: string;
+	interactive: boolean;
+	force: boolean;
+	ats?: string;
+	answers?: string;
+	document: Pick<ApplicantDocument, "label" | "path">[];
+	maxCost?: number;
+	maxSteps?: number;
+	maxReviewRounds?: number;
+	cache: boolean;
+	coverLetter: boolean;
+};
+
+type BatchJobSummary = {
+	index: number;
+	jobUrl: string;
+	job?: string;
+	threadId?: string;
+	status: RunStatus;
+	detail?: string;
+	usage?: UsageTotals;
+};
+
+const summaryColumns: TableColumn<BatchJobSummary>[] = [
+	{ header: "#", value: (job) => job.index },
+	{ header: "Status", value: (job) => job.status },
+	{ header: "Job", value: (job) => job.job },
+	{ header: "Job URL", value: (job) => job.jobUrl },
+	{ header: "Thread ID", value: (job) => job.threadId },
+	{ header: "Cost", value: (job) => job.usage && formatUsd(job.usage.costUsd) },
+	{ header: "Detail", value: (job) => job.detail },
+];
+
+async function writeBatchSummary(
+	summaryPath: string,
+	summary: {
+		startedAt: string;
+		finishedAt: string;
+		counts: Record<RunStatus, number>;
+		jobs: BatchJobSummary[];
+	},
+): Promise<void> {
+	await mkdir(dirname(summaryPath), { recursive: true });
+
+	if (extname(summaryPath).toLowerCase() === ".csv") {
+		await writeFile(summaryPath, formatCsv(summaryColumns, summary.jobs));
+		return;
+	}
+
+	await writeFile(summaryPath, `${JSON.stringify(summary, null, "\t")}\n`);
+}
+
+export function registerBatchCommand(program: Command): void {
+	program
+		.command("batch")
+		.description(
+			"Apply to every job posting in a CSV, JSON or YAML queue file, one thread per job.",
+		)
+		.argument("<queue-path>", "Path to the job queue file", validatePath)
+		.option(
+			"--resume-path <path>",
+			"Default resume (PDF, DOCX, TXT or MD) for jobs without their own",
+			validatePath,
+		)
+		.option(
+			"--document <label=path>",
+			"Additional document to upload for every job, e.g. transcript=./transcript.pdf (repeatable)",
+			parseDocumentOption,
+			[],
+		)
+		.option(
+			"--extra-prompts <path>",
+			"Default extra prompts file for jobs without their own",
+			validatePath,
+		)
+		.option(
+			"--summary-out <path>",
+			"Where to write the batch summary (.json or .csv)",
+		)
+		.option(
+			"--interactive",
+			"Answer `prompt` interrupts in the terminal instead of leaving jobs awaiting input",
+			false,
+		)
+		.option(
+			"--force",
+			"Apply even to postings that were already submitted before",
+			false,
+		)
+		.option(
+			"--answers <path>",
+			"YAML file answering missing-information questions, for interrupts whose policy is `answers`",
+			validatePath,
+		)
+		.option(
+			"--ats <adapter>",
+			`ATS adapter: auto (default), none, or one of ${atsAdapterVendors.join(", ")}`,
+			parseAtsOption,
+		)
+		.option(
+			"--max-cost <usd>",
+			"Pause each run once its estimated model cost reaches this many USD",
+			parseCostOption,
+		)
+		.option(
+			"--max-steps <count>",
+			"Pause each run after this many browser actions",
+			parseCountOption,
+		)
+		.option(
+			"--max-review-rounds <count>",
+			"Pause each run after this many submission reviews asking for changes",
+			parseCountOption,
+		)
+		.option(
+			"--no-cache",
+			"Ask the model for every browser step instead of replaying cached actions",
+		)
+		.option(
+			"--no-cover-letter",
+			"Do not draft a cover letter, even if the config enables it",
+		)
+		.action(async (queuePath: string, options: BatchCommandOptions) => {
+			const jobs = await loadJobQueue(queuePath);
+			const answers = await loadInterruptAnswers(
+				options.answers ?? appConfig.interrupts.answersFile,
+			);
+			const budget = resolveBudget({
+				maxCostUsd: options.maxCost,
+				maxSteps: options.maxSteps,
+				maxReviewRounds: options.maxReviewRounds,
+			});
+			const startedAt = new Date().toISOString();
+			logger.info({ queuePath, jobCount: jobs.length }, "Starting batch run");
+
+			const rl = options.interactive
+				? createInterface({ input: process.stdin, output: process.stdout })
+				: undefined;
+
+			const summaries: BatchJobSummary[] = [];
+			const seenJobUrls = new Set<string>();
+
+			try {
+				for (const [offset, job] of jobs.entries()) {
+					const index = offset + 1;
+					const resumePath = job.resumePath ?? options.resumePath;
+					const extraPromptsPath = job.extraPromptsPath ?? options.extraPrompts;
+
+					let skipReason: string | undefined;
+					if (seenJobUrls.has(job.jobUrl)) {
+						skipReason = "Duplicate of an earlier queue entry.";
+					} else if (!resumePath) {
+						skipReason =
+							"No resume path given for this job or via --resume-path.";
+					} else if (!existsSync(resumePath)) {
+						skipReason = `Resume not found at path: ${resumePath}`;
+					} else if (extraPromptsPath && !existsSync(extraPromptsPath)) {
+						skipReason = `Extra prompts file not found at path: ${extraPromptsPath}`;
+					}
+					seenJobUrls.add(job.jobUrl);
+
+					if (skipReason || !resumePath) {
+						logger.warn(
+							{ index, jobUrl: job.jobUrl, skipReason },
+							"Skipping job",
+						);
+						summaries.push({
+							index,
+							jobUrl: job.jobUrl,
+							status: "skipped",
+							detail: skipReason,
+						});
+						continue;
+					}
+
+					const threadId = randomUUID();
+					logger.info(
+						{ index, jobUrl: job.jobUrl, threadId },
+						"Starting batch job",
+					);
+
+					try {
+						const result = await runThread(
+							{
+								jobUrl: job.jobUrl,
+								resumePath,
+								extraPromptsPath,
+								force: options.force,
+								atsOverride: options.ats,
+								documents: options.document,
+								actionCache: options.cache,
+								coverLetterEnabled: options.coverLetter,
+								budget,
+							},
+							threadId,
+							async (interruptPayload, signal) =>
+								rl
+									? promptInterruptResumeValue(rl, interruptPayload, signal)
+									: undefined,
+							{ answers },
+						);
+
+						summaries.push({
+							index,
+							jobUrl: job.jobUrl,
+							job: describeJobPosting(result.values?.jobPosting),
+							threadId,
+							status: result.status,
+							detail:
+								result.status === "awaiting_input" ||
+								result.status === "blocked"
+									? `Waiting on ${result.interrupt?.value?.type ?? "interrupt"}`
+									: (result.values?.skipReason ??
+										result.values?.submissionResult?.message ??
+										result.values?.fillStatus?.message),
+							usage: (await getRunUsage(threadId)).total,
+						});
+					} catch (error) {
+						logger.error(
+							{ index, jobUrl: job.jobUrl, threadId, error },
+							"Batch job failed",
+						);
+						summaries.push({
+							index,
+							jobUrl: job.jobUrl,
+							threadId,
+							status: "failed",
+							detail: error instanceof Error ? error.message : String(error),
+							usage: (await getRunUsage(threadId)).total,
+						});
+					}
+				}
+			} finally {
+				rl?.close();
+			}
+
+			const counts: Record<RunStatus, number> = {
+				submitted: 0,
+				unconfirmed: 0,
+				skipped: 0,
+				failed: 0,
+				awaiting_input: 0,
+				blocked: 0,
+			};
+			for (const summary of summaries) {
+				counts[summary.status] += 1;
+			}
+
+			const summaryPath =
+				options.summaryOut ??
+				join(
+					envVars.DATA_DIR,
+					`batch-summary-${startedAt.replace(/[:.]/g, "-")}.json`,
+				);
+			await writeBatchSummary(summaryPath, {
+				startedAt,
+				finishedAt: new Date().toISOString(),
+				counts,
+				jobs: summaries,
+			});
+
+			console.log(`\n${formatTable(summaryColumns, summaries)}\n`);
+			const costUsd = summaries.reduce(
+				(total, summary) => total + (summary.usage?.costUsd ?? 0),
+				0,
+			);
+			logger.info(
+				{ counts, costUsd: formatUsd(costUsd), summaryPath },
+				"Batch run finished",
+			);
+		});
+}
@@ -0,0 +1,75 @@
+import type { Command } from "commander";
+import { logger } from "../index.js";
+import {
+	type ActionCacheEntry,
+	clearActionCache,
+	readActionCache,
+} from "../stores/action-cache.store.js";
+import { formatTable, type TableColumn } from "../utils/table.js";
+
+type CacheRow = ActionCacheEntry & { key: string };
+
+const cacheColumns: TableColumn<CacheRow>[] = [
+	{ header: "Key", value: (row) => row.key },
+	{ header: "Tenant", value: (row) => row.tenant },
+	{ header: "ATS", value: (row) => row.ats },
+	{ header: "Step", value: (row) => row.step },
+	{ header: "Steps", value: (row) => row.steps.length },
+	{ header: "Hits", value: (row) => row.hitCount },
+	{ header: "Last used", value: (row) => row.lastUsedAt ?? row.createdAt },
+];
+
+export function registerCacheCommand(program: Command): void {
+	const cache = program
+		.command("cache")
+		.description("Inspect or clear the cache of replayable browser actions.");
+
+	cache
+		.command("list")
+		.description("List cached actions.")
+		.option("--domain <domain>", "Only entries for this domain")
+		.option("--json", "Print as JSON", false)
+		.action(async (options: { domain?: string; json: boolean }) => {
+			const rows = Object.entries((await readActionCache()).entries)
+				.map(([key, entry]) => ({ key, ...entry }))
+				.filter(
+					(row) =>
+						!options.domain ||
+						row.domain === options.domain ||
+						row.domain.endsWith(`.${options.domain}`),
+				)
+				.sort(
+					(a, b) =>
+						a.domain.localeCompare(b.domain) ||
+						b.updatedAt.localeCompare(a.updatedAt),
+				);
+			if (options.json) {
+				console.log(JSON.stringify(rows, null, "\t"));
+				return;
+			}
+
+			console.log(formatTable(cacheColumns, rows));
+		});
+
+	cache
+		.command("show")
+		.description("Print the steps of one cached entry.")
+		.argument("<key>", "Cache key, as shown by `cache list`")
+		.action(async (key: string, _options: unknown, command: Command) => {
+			const entry = (await readActionCache()).entries[key];
+			if (!entry) {
+				command.error(`error: no cached actions for key "${key}"`);
+			}
+			console.log(JSON.stringify({ key, ...entry }, null, "\t"));
+		});
+
+	cache
+		.command("clear")
+		.description("Delete cached actions, all of them unless filtered.")
+		.option("--domain <domain>", "Only entries for this domain")
+		.option("--key <key>", "Only the entry with this key")
+		.action(async (options: { domain?: string; key?: string }) => {
+			const deleted = await clearActionCache(options);
+			logger.info({ deleted, ...options }, "Action cache cleared");
+		});
+}
@@ -0,0 +1,116 @@
+import type { Command } from "commander";
+import { logger } from "../index.js";
+import {
+	credentialVaultFilePath,
+	deleteCredential,
+	getCredentialKey,
+	readCredentialVault,
+	type StoredCredential,
+} from "../stores/credential-vault.store.js";
+import { promptSecret } from "../utils/cli.js";
+import { envVars } from "../utils/env.js";
+import { formatTable, type TableColumn } from "../utils/table.js";
+
+type CredentialRow = Omit<StoredCredential, "password">;
+
+const credentialColumns: TableColumn<CredentialRow>[] = [
+	{ header: "Key", value: (credential) => credential.key },
+	{ header: "Email", value: (credential) => credential.email },
+	{ header: "ATS", value: (credential) => credential.atsVendor },
+	{
+		header: "Generated",
+		value: (credential) => (credential.generated ? "yes" : "no"),
+	},
+	{ header: "Updated", value: (credential) => credential.updatedAt },
+	{ header: "Last used", value: (credential) => credential.lastUsedAt },
+];
+
+/**
+ * Runs a vault operation with the passphrase from VAULT_PASSPHRASE or a
+ * prompt, reporting a wrong passphrase as a CLI error.
+ */
+async function withVaultPassphrase<T>(
+	command: Command,
+	action: (passphrase: string) => Promise<T>,
+): Promise<T> {
+	const passphrase =
+		envVars.VAULT_PASSPHRASE ?? (await promptSecret("Vault passphrase: "));
+	try {
+		return await action(passphrase);
+	} catch (error) {
+		command.error(
+			`error: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+}
+
+/**
+ * Accepts a stored key or any URL on the employer's ATS.
+ */
+function parseCredentialKey(value: string): string {
+	return value.includes("://")
+		? (getCredentialKey(value) ?? value)
+		: value.trim().toLowerCase();
+}
+
+export function registerCredentialsCommand(program: Command): void {
+	const credentials = program
+		.command("credentials")
+		.description(
+			`Manage ATS account credentials in the encrypted vault (${credentialVaultFilePath}). Uses VAULT_PASSPHRASE or asks for it.`,
+		);
+
+	credentials
+		.command("list")
+		.description("List stored accounts without their passwords.")
+		.option("--json", "Print as JSON", false)
+		.action(async (options: { json: boolean }, command: Command) => {
+			const vault = await withVaultPassphrase(command, readCredentialVault);
+			const rows = Object.values(vault.credentials)
+				.map(
+					({ password: _password, ...credential }): CredentialRow => credential,
+				)
+				.sort((a, b) => a.key.localeCompare(b.key));
+			if (options.json) {
+				console.log(JSON.stringify(rows, null, "\t"));
+				return;
+			}
+
+			console.log(formatTable(credentialColumns, rows));
+		});
+
+	credentials
+		.command("show")
+		.description("Print the email and password stored for an ATS tenant.")
+		.argument("<key>", "Stored key or a URL on the employer's ATS")
+		.action(async (value: string, _options: unknown, command: Command) => {
+			const key = parseCredentialKey(value);
+			const vault = await withVaultPassphrase(command, readCredentialVault);
+			const credential = vault.credentials[key];
+			if (!credential) {
+				command.error(`error: no stored credential for "${key}"`);
+			}
+
+			console.log(`Key:      ${credential.key}`);
+			console.log(`Email:    ${credential.email}`);
+			console.log(`Password: ${credential.password}`);
+			if (credential.loginUrl) {
+				console.log(`Login:    ${credential.loginUrl}`);
+			}
+		});
+
+	credentials
+		.command("remove")
+		.description("Remove the credential stored for an ATS tenant.")
+		.argument("<key>", "Stored key or a URL on the employer's ATS")
+		.action(async (value: string, _options: unknown, command: Command) => {
+			const key = parseCredentialKey(value);
+			const deleted = await withVaultPassphrase(command, (passphrase) =>
+				deleteCredential(passphrase, key),
+			);
+			if (!deleted) {
+				command.error(`error: no stored credential for "${key}"`);
+			}
+			logger.info({ key }, "Credential removed");
+		});
+}
@@ -0,0 +1,147 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { type Command, Option } from "commander";
+import { logger } from "../index.js";
+import {
+	type ApplicationRecord,
+	type HistoryEntry,
+	normalizeJobUrl,
+	readHistory,
+	summarizeApplications,
+} from "../stores/history.store.js";
+import { formatCsv, formatTable, type TableColumn } from "../utils/table.js";
+import { formatUsd } from "../utils/usage.js";
+
+type HistoryCommandOptions = {
+	url?: string;
+	company?: string;
+	event?: string;
+	since?: string;
+	events: boolean;
+	format: "table" | "json" | "csv";
+	output?: string;
+};
+
+const entryColumns: TableColumn<HistoryEntry>[] = [
+	{ header: "Timestamp", value: (entry) => entry.timestamp },
+	{ header: "Thread ID", value: (entry) => entry.threadId },
+	{ header: "Event", value: (entry) => entry.event },
+	{ header: "Company", value: (entry) => entry.company },
+	{ header: "Title", value: (entry) => entry.jobTitle },
+	{ header: "Job URL", value: (entry) => entry.jobUrl },
+	{ header: "Detail", value: (entry) => entry.detail },
+];
+
+const applicationColumns: TableColumn<ApplicationRecord>[] = [
+	{ header: "Started", value: (record) => record.startedAt },
+	{ header: "Updated", value: (record) => record.timestamp },
+	{ header: "Thread ID", value: (record) => record.threadId },
+	{ header: "Last event", value: (record) => record.event },
+	{ header: "Company", value: (record) => record.company },
+	{ header: "Title", value: (record) => record.jobTitle },
+	{ header: "Type", value: (record) => record.employmentType },
+	{ header: "Location", value: (record) => record.location },
+	{ header: "Job URL", value: (record) => record.jobUrl },
+	{
+		header: "Fill status",
+		value: (record) =>
+			record.fillStatus &&
+			`${record.fillStatus.completed ? "completed" : "incomplete"}: ${record.fillStatus.message}`,
+	},
+	{
+		header: "Submit result",
+		value: (record) => record.submissionResult?.message,
+	},
+	{
+		header: "Cost",
+		value: (record) => record.usage && formatUsd(record.usage.costUsd),
+	},
+];
+
+function matchesEntryFilters(
+	entry: HistoryEntry,
+	options: HistoryCommandOptions,
+): boolean {
+	if (options.url && entry.normalizedJobUrl !== normalizeJobUrl(options.url)) {
+		return false;
+	}
+
+	return !options.since || entry.timestamp >= options.since;
+}
+
+function matchesRecordFilters(
+	record: ApplicationRecord,
+	options: HistoryCommandOptions,
+): boolean {
+	if (
+		options.company &&
+		!record.company?.toLowerCase().includes(options.company.toLowerCase())
+	) {
+		return false;
+	}
+
+	return !options.event || record.event === options.event;
+}
+
+function render<Row>(
+	columns: TableColumn<Row>[],
+	rows: Row[],
+	format: HistoryCommandOptions["format"],
+): string {
+	if (format === "json") {
+		return `${JSON.stringify(rows, null, "\t")}\n`;
+	}
+
+	if (format === "csv") {
+		return formatCsv(columns, rows);
+	}
+
+	return `${formatTable(columns, rows)}\n`;
+}
+
+export function registerHistoryCommand(program: Command): void {
+	program
+		.command("history")
+		.description("Query and export the local application history ledger.")
+		.option("--url <url>", "Only this posting (compared by normalized URL)")
+		.option("--company <name>", "Only companies containing this text")
+		.option("--event <event>", "Only applications whose latest event matches")
+		.option("--since <date>", "Only entries at or after this ISO date")
+		.option(
+			"--events",
+			"List raw ledger events instead of one row per run",
+			false,
+		)
+		.addOption(
+			new Option("--format <format>", "Output format")
+				.choices(["table", "json", "csv"])
+				.default("table"),
+		)
+		.option("--output <path>", "Write to a file instead of stdout")
+		.action(async (options: HistoryCommandOptions) => {
+			const entries = (await readHistory()).filter((entry) =>
+				matchesEntryFilters(entry, options),
+			);
+			const records = summarizeApplications(entries).filter((record) =>
+				matchesRecordFilters(record, options),
+			);
+			const threadIds = new Set(records.map((record) => record.threadId));
+
+			const output = options.events
+				? render(
+						entryColumns,
+						entries.filter((entry) => threadIds.has(entry.threadId)),
+						options.format,
+					)
+				: render(applicationColumns, records, options.format);
+
+			if (!options.output) {
+				process.stdout.write(output);
+				return;
+			}
+
+			await mkdir(dirname(options.output), { recursive: true });
+			await writeFile(options.output, output);
+			logger.info({ output: options.output }, "History exported");
+		});
+}
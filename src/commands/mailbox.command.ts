@@ -0,0 +1,86 @@
+import { type Command, InvalidArgumentError } from "commander";
+import {
+	getVerificationSenderDomains,
+	listRecentVerificationEmails,
+	type VerificationEmail,
+} from "../utils/mailbox.js";
+import { formatTable, type TableColumn } from "../utils/table.js";
+
+const emailColumns: TableColumn<VerificationEmail>[] = [
+	{ header: "Received", value: (email) => email.receivedAt },
+	{ header: "From", value: (email) => email.from },
+	{ header: "Subject", value: (email) => email.subject },
+	{ header: "Code", value: (email) => email.code },
+	{ header: "Link", value: (email) => email.link },
+];
+
+function parseMinutes(value: string): number {
+	const minutes = Number(value);
+	if (!Number.isFinite(minutes) || minutes <= 0) {
+		throw new InvalidArgumentError(`Invalid number of minutes: ${value}`);
+	}
+	return minutes;
+}
+
+export function registerMailboxCommand(program: Command): void {
+	const mailbox = program
+		.command("mailbox")
+		.description("Check the IMAP mailbox used for account verification.");
+
+	mailbox
+		.command("check")
+		.description(
+			"Connect with the configured settings and list recent verification emails with the code or link found in each.",
+		)
+		.option(
+			"--url <url>",
+			"Application or posting URL whose senders to accept (repeatable)",
+			(value: string, previous: string[]) => [...previous, value],
+			[],
+		)
+		.option(
+			"--sender-domain <domain>",
+			"Sender domain to accept (repeatable)",
+			(value: string, previous: string[]) => [...previous, value],
+			[],
+		)
+		.option(
+			"--since-minutes <minutes>",
+			"Only look at emails from the last N minutes",
+			parseMinutes,
+			60,
+		)
+		.action(
+			async (
+				options: {
+					url: string[];
+					senderDomain: string[];
+					sinceMinutes: number;
+				},
+				command: Command,
+			) => {
+				const senderDomains = [
+					...getVerificationSenderDomains(options.url),
+					...options.senderDomain.map((domain) => domain.toLowerCase()),
+				];
+				if (senderDomains.length === 0) {
+					command.error(
+						"error: pass --url or --sender-domain, or set mailbox.senderDomains in the config",
+					);
+				}
+
+				try {
+					const emails = await listRecentVerificationEmails({
+						senderDomains,
+						since: new Date(Date.now() - options.sinceMinutes * 60_000),
+					});
+					console.log(`Accepted sender domains: ${senderDomains.join(", ")}`);
+					console.log(formatTable(emailColumns, emails));
+				} catch (error) {
+					command.error(
+						`error: ${error instanceof Error ? error.message : String(error)}`,
+					);
+				}
+			},
+		);
+}
@@ -0,0 +1,77 @@
+import { type Command, InvalidArgumentError } from "commander";
+import { type NotifierResult, notifyRun } from "../notifiers/registry.js";
+import {
+	type NotificationKind,
+	notificationKindSchema,
+} from "../utils/config.js";
+import { formatTable, type TableColumn } from "../utils/table.js";
+
+const resultColumns: TableColumn<NotifierResult>[] = [
+	{ header: "Notifier", value: (result) => result.notifier },
+	{ header: "Result", value: (result) => result.error ?? "sent" },
+];
+
+function parseKind(value: string): NotificationKind {
+	const parsed = notificationKindSchema.safeParse(value);
+	if (!parsed.success) {
+		throw new InvalidArgumentError(
+			`Invalid kind: ${value}. Use one of ${notificationKindSchema.options.join(", ")}.`,
+		);
+	}
+	return parsed.data;
+}
+
+export function registerNotifyCommand(program: Command): void {
+	const notify = program
+		.command("notify")
+		.description("Check the notifiers configured under `notifications`.");
+
+	notify
+		.command("test")
+		.description(
+			"Send a sample notification through every configured notifier and show which ones worked.",
+		)
+		.option(
+			"--kind <kind>",
+			`Kind of notification: ${notificationKindSchema.options.join(", ")}`,
+			parseKind,
+			"interrupt",
+		)
+		.action(async (options: { kind: NotificationKind }, command: Command) => {
+			const results = await notifyRun(
+				{
+					kind: options.kind,
+					threadId: "00000000-0000-0000-0000-000000000000",
+					status:
+						options.kind === "interrupt"
+							? "awaiting_input"
+							: options.kind === "failed"
+								? "failed"
+								: "submitted",
+					job: "Software Developer Co-op at Example Corp (Vancouver, BC)",
+					jobUrl: "https://example.com/jobs/123",
+					interruptType:
+						options.kind === "interrupt" ? "submission_approval" : undefined,
+					reason:
+						options.kind === "interrupt"
+							? "Test notification from `open-door notify test`."
+							: undefined,
+					detail:
+						options.kind === "interrupt"
+							? undefined
+							: "Test notification from `open-door notify test`.",
+				},
+				{ force: true },
+			);
+			if (results.length === 0) {
+				command.error(
+					"error: no notifiers configured. Add them under `notifications.notifiers` in the config file",
+				);
+			}
+
+			console.log(formatTable(resultColumns, results));
+			if (results.some((result) => result.error)) {
+				process.exitCode = 1;
+			}
+		});
+}
@@ -0,0 +1,20 @@
+import { existsSync } from "node:fs";
+import type { Command } from "commander";
+import { getRunDirectory } from "../stores/run-artifacts.store.js";
+import { writeRunReport } from "../utils/run-report.js";
+
+export function registerReportCommand(program: Command): void {
+	program
+		.command("report")
+		.description(
+			"Regenerate the HTML run report of a thread from its artifacts and print its path.",
+		)
+		.argument("<threadId>", "Thread ID")
+		.action(async (threadId: string, _options: unknown, command: Command) => {
+			if (!existsSync(getRunDirectory(threadId))) {
+				command.error(`error: no run artifacts found for thread ${threadId}`);
+			}
+
+			console.log(await writeRunReport(threadId));
+		});
+}
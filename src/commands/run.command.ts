@@ -0,0 +1,192 @@
+import { randomUUID } from "node:crypto";
+import { createInterface } from "node:readline/promises";
+import type { Command } from "commander";
+import z from "zod";
+import { atsAdapterVendors, parseAtsOption } from "../ats/registry.js";
+import { logger } from "../index.js";
+import type { ApplicantDocument } from "../states/state.js";
+import {
+	parseCostOption,
+	parseCountOption,
+	resolveBudget,
+} from "../utils/budget.js";
+import { validatePath } from "../utils/cli.js";
+import { appConfig } from "../utils/config.js";
+import { parseDocumentOption } from "../utils/documents.js";
+import { loadInterruptAnswers } from "../utils/interrupt-policy.js";
+import { promptInterruptResumeValue } from "../utils/interrupts.js";
+import { describeJobPosting } from "../utils/job-posting.js";
+import {
+	resumeThread,
+	runStatusExitCodes,
+	runThread,
+	type ThreadRunResult,
+} from "../utils/run-thread.js";
+import { formatUsageBreakdown, getRunUsage } from "../utils/usage.js";
+
+type RunCommandOptions = {
+	jobUrl?: string;
+	resumePath?: string;
+	extraPrompts?: string;
+	resumeThread?: string;
+	force: boolean;
+	ats?: string;
+	answers?: string;
+	profilePath?: string;
+	refreshProfile: boolean;
+	document: Pick<ApplicantDocument, "label" | "path">[];
+	maxCost?: number;
+	maxSteps?: number;
+	maxReviewRounds?: number;
+	cache: boolean;
+	coverLetter: boolean;
+};
+
+export function registerRunCommand(program: Command): void {
+	program
+		.command("run", { isDefault: true })
+		.description("Apply to a single job posting, or resume a saved thread.")
+		.option("--job-url <url>", "Job posting URL", (value) =>
+			z.url().parse(value),
+		)
+		.option(
+			"--resume-path <path>",
+			"Path to resume (PDF, DOCX, TXT or MD)",
+			validatePath,
+		)
+		.option(
+			"--document <label=path>",
+			"Additional document to upload, e.g. cover_letter=./letter.pdf (repeatable)",
+			parseDocumentOption,
+			[],
+		)
+		.option(
+			"--extra-prompts <path>",
+			"Path to extra prompts file",
+			validatePath,
+		)
+		.option(
+			"--profile-path <path>",
+			"Applicant profile JSON (defaults to data/profiles/<resume name>.profile.json)",
+		)
+		.option(
+			"--refresh-profile",
+			"Re-extract the applicant profile from the resume, overwriting the file",
+			false,
+		)
+		.option(
+			"--force",
+			"Apply even if this posting was already submitted before",
+			false,
+		)
+		.option(
+			"--answers <path>",
+			"YAML file answering missing-information questions, for interrupts whose policy is `answers`",
+			validatePath,
+		)
+		.option(
+			"--ats <adapter>",
+			`ATS adapter: auto (default), none, or one of ${atsAdapterVendors.join(", ")}`,
+			parseAtsOption,
+		)
+		.option(
+			"--max-cost <usd>",
+			"Pause the run once its estimated model cost reaches this many USD",
+			parseCostOption,
+		)
+		.option(
+			"--max-steps <count>",
+			"Pause the run after this many browser actions",
+			parseCountOption,
+		)
+		.option(
+			"--max-review-rounds <count>",
+			"Pause the run after this many submission reviews asking for changes",
+			parseCountOption,
+		)
+		.option(
+			"--no-cache",
+			"Ask the model for every browser step instead of replaying cached actions",
+		)
+		.option(
+			"--no-cover-letter",
+			"Do not draft a cover letter, even if the config enables it",
+		)
+		.option(
+			"--resume-thread <threadId>",
+			"Continue a checkpointed thread where it stopped",
+		)
+		.action(async (options: RunCommandOptions, command: Command) => {
+			if (!options.resumeThread && (!options.jobUrl || !options.resumePath)) {
+				command.error(
+					"error: --job-url and --resume-path are required unless --resume-thread is given",
+				);
+			}
+
+			const runOptions = {
+				answers: await loadInterruptAnswers(
+					options.answers ?? appConfig.interrupts.answersFile,
+				),
+			};
+			const rl = createInterface({
+				input: process.stdin,
+				output: process.stdout,
+			});
+			const onInterrupt = (
+				interruptPayload: Parameters<typeof promptInterruptResumeValue>[1],
+				signal?: AbortSignal,
+			) => promptInterruptResumeValue(rl, interruptPayload, signal);
+
+			try {
+				let result: ThreadRunResult;
+				if (options.resumeThread) {
+					logger.info({ threadId: options.resumeThread }, "Resuming thread");
+					result = await resumeThread(
+						options.resumeThread,
+						onInterrupt,
+						runOptions,
+					);
+				} else {
+					const threadId = randomUUID();
+					logger.info({ threadId, jobUrl: options.jobUrl }, "Starting run");
+					result = await runThread(
+						{
+							jobUrl: options.jobUrl,
+							resumePath: options.resumePath,
+							extraPromptsPath: options.extraPrompts,
+							force: options.force,
+							atsOverride: options.ats,
+							profilePath: options.profilePath,
+							refreshProfile: options.refreshProfile,
+							documents: options.document,
+							actionCache: options.cache,
+							coverLetterEnabled: options.coverLetter,
+							budget: resolveBudget({
+								maxCostUsd: options.maxCost,
+								maxSteps: options.maxSteps,
+								maxReviewRounds: options.maxReviewRounds,
+							}),
+						},
+						threadId,
+						onInterrupt,
+						runOptions,
+					);
+				}
+
+				const { threadId, status, values } = result;
+				logger.info(
+					{
+						threadId,
+						status,
+						job: describeJobPosting(values?.jobPosting),
+						confirmationNumber: values?.submissionResult?.confirmationNumber,
+					},
+					"Run finished",
+				);
+				console.log(`\n${formatUsageBreakdown(await getRunUsage(threadId))}\n`);
+				process.exitCode = runStatusExitCodes[status];
+			} finally {
+				rl.close();
+			}
+		});
+}
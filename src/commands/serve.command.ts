@@ -0,0 +1,59 @@
+import { once } from "node:events";
+import { type Command, InvalidArgumentError } from "commander";
+import { logger } from "../index.js";
+import { setDashboardUrl } from "../notifiers/registry.js";
+import { createApiServer, loopbackHosts } from "../server/api-server.js";
+import { createRunManager } from "../server/run-manager.js";
+import { validatePath } from "../utils/cli.js";
+import { appConfig } from "../utils/config.js";
+import { loadInterruptAnswers } from "../utils/interrupt-policy.js";
+
+function parsePort(value: string): number {
+	const port = Number(value);
+	if (!Number.isInteger(port) || port < 0 || port > 65_535) {
+		throw new InvalidArgumentError(`Invalid port: ${value}`);
+	}
+	return port;
+}
+
+export function registerServeCommand(program: Command): void {
+	program
+		.command("serve")
+		.description(
+			"Start a local HTTP API for starting runs, answering their interrupts and streaming their progress.",
+		)
+		.option("--port <port>", "Port to listen on", parsePort, 4310)
+		.option("--host <host>", "Host to bind to", "127.0.0.1")
+		.option(
+			"--answers <path>",
+			"YAML file answering missing-information questions, for interrupts whose policy is `answers`",
+			validatePath,
+		)
+		.action(
+			async (options: { port: number; host: string; answers?: string }) => {
+				const answers = await loadInterruptAnswers(
+					options.answers ?? appConfig.interrupts.answersFile,
+				);
+				const server = createApiServer(createRunManager({ answers }), {
+					host: options.host,
+				});
+
+				server.listen(options.port, options.host);
+				await once(server, "listening");
+				if (!loopbackHosts.has(options.host)) {
+					logger.warn(
+						{ host: options.host },
+						"The API has no authentication; anyone who can reach this host can start runs and read their answers.",
+					);
+				}
+				const url = `http://${options.host}:${options.port}`;
+				setDashboardUrl(`${url}/`);
+				logger.info(
+					{ api: `${url}/api`, dashboard: `${url}/` },
+					"API server listening",
+				);
+
+				await once(server, "close");
+			},
+		);
+}
@@ -0,0 +1,71 @@
+import type { Command } from "commander";
+import { checkpointer } from "../stores/checkpoint.store.js";
+import { getThreadSummary, type ThreadSummary } from "../utils/run-thread.js";
+import { formatTable, type TableColumn } from "../utils/table.js";
+
+const threadColumns: TableColumn<ThreadSummary>[] = [
+	{ header: "Thread ID", value: (thread) => thread.threadId },
+	{ header: "Status", value: (thread) => thread.status },
+	{ header: "Updated", value: (thread) => thread.updatedAt },
+	{ header: "Next", value: (thread) => thread.next.join(", ") },
+	{
+		header: "Pending interrupt",
+		value: (thread) => thread.pendingInterrupt?.value?.type,
+	},
+	{ header: "Job URL", value: (thread) => thread.jobUrl },
+];
+
+export function registerThreadsCommand(program: Command): void {
+	const threads = program
+		.command("threads")
+		.description(
+			"Inspect checkpointed runs. Resume one with run --resume-thread <id>.",
+		);
+
+	threads
+		.command("list")
+		.description("List saved threads, most recently updated first.")
+		.action(async () => {
+			const summaries: ThreadSummary[] = [];
+			for (const threadId of checkpointer.listThreadIds()) {
+				const summary = await getThreadSummary(threadId);
+				if (summary) {
+					summaries.push(summary);
+				}
+			}
+
+			summaries.sort((a, b) =>
+				(b.updatedAt ?? "").localeCompare(a.updatedAt ?? ""),
+			);
+			console.log(formatTable(threadColumns, summaries));
+		});
+
+	threads
+		.command("show")
+		.description("Show one thread's state and pending interrupt.")
+		.argument("<threadId>", "Thread ID")
+		.action(async (threadId: string, _options: unknown, command: Command) => {
+			const summary = await getThreadSummary(threadId);
+			if (!summary) {
+				command.error(`error: no checkpoint found for thread ${threadId}`);
+				return;
+			}
+
+			// Messages are verbose and already reflected in the other fields.
+			const { messages: _messages, ...values } = summary.values;
+			console.log(
+				JSON.stringify(
+					{
+						threadId: summary.threadId,
+						status: summary.status,
+						updatedAt: summary.updatedAt,
+						next: summary.next,
+						pendingInterrupt: summary.pendingInterrupt?.value,
+						values,
+					},
+					null,
+					"\t",
+				),
+			);
+		});
+}
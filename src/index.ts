@@ -1,15 +1,33 @@
-import { randomUUID } from "node:crypto";
-import { existsSync } from "node:fs";
-import { createInterface } from "node:readline/promises";
 import { fileURLToPath } from "node:url";
-import { Command } from "@langchain/langgraph";
-import { InvalidArgumentError, program } from "commander";
+import { program } from "commander";
 import pino from "pino";
-import z from "zod";
-import { agent } from "./agent.js";
+import { registerAnswersCommand } from "./commands/answers.command.js";
+import { registerBatchCommand } from "./commands/batch.command.js";
+import { registerCacheCommand } from "./commands/cache.command.js";
+import { registerCredentialsCommand } from "./commands/credentials.command.js";
+import { registerHistoryCommand } from "./commands/history.command.js";
+import { registerMailboxCommand } from "./commands/mailbox.command.js";
+import { registerNotifyCommand } from "./commands/notify.command.js";
+import { registerReportCommand } from "./commands/report.command.js";
+import { registerRunCommand } from "./commands/run.command.js";
+import { registerServeCommand } from "./commands/serve.command.js";
+import { registerThreadsCommand } from "./commands/threads.command.js";
+import {
+	type BrowserOverrides,
+	parseBrowserProfileOption,
+	parseViewportOption,
+} from "./utils/browser.js";
+import { closeStagehandInstance, configureBrowser } from "./utils/instances.js";
+import { mirrorLogCall } from "./utils/log-stream.js";
 
 export const logger = pino({
 	level: "debug",
+	hooks: {
+		logMethod(args, method, level) {
+			mirrorLogCall(args, pino.levels.labels[level] ?? String(level));
+			method.apply(this, args);
+		},
+	},
 	transport: {
 		target: "pino-pretty",
 		options: {
@@ -18,190 +36,80 @@ export const logger = pino({
 	},
 });
 
-type InterruptPayload = {
-	value?: {
-		type?: string;
-		message?: string;
-		reason?: string;
-		reviewSuggestions?: string[];
-	};
-};
-
-function getInterruptPayload(result: unknown): InterruptPayload | undefined {
-	if (!result || typeof result !== "object") {
-		return undefined;
-	}
-
-	const maybeInterrupt = (result as { __interrupt__?: unknown }).__interrupt__;
-	if (!Array.isArray(maybeInterrupt) || maybeInterrupt.length === 0) {
-		return undefined;
-	}
-
-	const firstInterrupt = maybeInterrupt[0];
-	if (!firstInterrupt || typeof firstInterrupt !== "object") {
-		return undefined;
-	}
-
-	return firstInterrupt as InterruptPayload;
-}
-
-function validatePath(value: string): string {
-	try {
-		const path = z.string().min(1).parse(value);
-		if (!existsSync(path)) {
-			throw new InvalidArgumentError(`File not found at path: ${path}`);
-		}
-		return path;
-	} catch (err) {
-		throw new InvalidArgumentError(
-			`Invalid path: ${value}, ${err instanceof Error ? err.message : ""}`,
-		);
+let shuttingDown = false;
+
+/**
+ * Closes the browser before exiting on Ctrl+C, so no orphaned Chrome is left
+ * behind and persistent profiles are flushed to disk.
+ */
+function handleShutdownSignals(): void {
+	for (const signal of ["SIGINT", "SIGTERM"] as const) {
+		process.on(signal, () => {
+			if (shuttingDown) {
+				process.exit(1);
+			}
+			shuttingDown = true;
+			logger.info({ signal }, "Closing the browser before exiting.");
+			void closeStagehandInstance()
+				.catch((error: unknown) => {
+					logger.warn({ error }, "Failed to close the browser cleanly");
+				})
+				.finally(() => process.exit(signal === "SIGINT" ? 130 : 143));
+		});
 	}
 }
 
 async function main() {
+	handleShutdownSignals();
 	program
-		.requiredOption("--job-url <url>", "Job posting URL", (value) =>
-			z.url().parse(value),
+		.name("open-door")
+		.option("--headless", "Run the browser without a window")
+		.option("--no-headless", "Show the browser window (default)")
+		.option(
+			"--viewport <WIDTHxHEIGHT>",
+			"Browser viewport size, e.g. 1440x900",
+			parseViewportOption,
 		)
-		.requiredOption("--resume-path <path>", "Path to resume PDF", validatePath)
 		.option(
-			"--extra-prompts <path>",
-			"Path to extra prompts file",
-			validatePath,
+			"--browser-profile <name>",
+			"Persistent browser profile under data/browser-profiles/ that keeps ATS logins",
+			parseBrowserProfileOption,
 		)
-		.parse(process.argv);
-
-	const cliOptions = program.opts<{
-		jobUrl: string;
-		resumePath: string;
-		extraPromptsPath?: string;
-	}>();
-
-	const config = {
-		configurable: {
-			thread_id: randomUUID(),
-		},
-	};
-
-	const rl = createInterface({
-		input: process.stdin,
-		output: process.stdout,
-	});
-
-	let result = await agent.invoke(
-		{
-			jobUrl: cliOptions.jobUrl,
-			resumePath: cliOptions.resumePath,
-			extraPromptsPath: cliOptions.extraPromptsPath,
-		},
-		config,
-	);
+		.option(
+			"--cdp-url <url>",
+			"Attach to a running Chrome, e.g. http://localhost:9222, instead of launching one",
+		)
+		.hook("preAction", (_, actionCommand) => {
+			const options = actionCommand.optsWithGlobals<{
+				headless?: boolean;
+				viewport?: BrowserOverrides["viewport"];
+				browserProfile?: string;
+				cdpUrl?: string;
+			}>();
+			configureBrowser({
+				headless: options.headless,
+				viewport: options.viewport,
+				profile: options.browserProfile,
+				cdpUrl: options.cdpUrl,
+			});
+		});
+	registerRunCommand(program);
+	registerBatchCommand(program);
+	registerThreadsCommand(program);
+	registerHistoryCommand(program);
+	registerAnswersCommand(program);
+	registerCacheCommand(program);
+	registerReportCommand(program);
+	registerCredentialsCommand(program);
+	registerMailboxCommand(program);
+	registerNotifyCommand(program);
+	registerServeCommand(program);
 
 	try {
-		while (true) {
-			const interruptPayload = getInterruptPayload(result);
-			if (!interruptPayload) {
-				break;
-			}
-
-			await new Promise((resolve) => setTimeout(resolve, 1000));
-
-			const interruptValue = interruptPayload.value;
-			const interruptType = interruptValue?.type;
-			let resumeValue: Record<string, unknown>;
-
-			if (interruptType === "missing_application_information") {
-				if (interruptValue?.reason) {
-					logger.info(
-						{ reason: interruptValue.reason },
-						"Fill form interruption reason",
-					);
-				}
-
-				const message =
-					interruptValue?.message ??
-					"The application form needs more information. Provide missing details to continue.";
-				const answer = (await rl.question(`${message}\n> `)).trim();
-
-				resumeValue = {
-					type: "provide_information",
-					additionalInformation: answer,
-				};
-			} else if (interruptType === "account_verification") {
-				if (interruptValue?.reason) {
-					logger.info(
-						{ reason: interruptValue.reason },
-						"Account verification interruption reason",
-					);
-				}
-
-				const message =
-					interruptValue?.message ??
-					"Email verification is required. Paste the verification code, or type 'done' after clicking the verification link.";
-				const answer = (await rl.question(`${message}\n> `)).trim();
-
-				resumeValue =
-					answer.toLowerCase() === "done"
-						? {
-								type: "account_verification",
-								action: "verification_link_clicked",
-							}
-						: {
-								type: "account_verification",
-								action: "provide_verification_code",
-								verificationCode: answer,
-							};
-			} else if (interruptType === "account_password") {
-				if (interruptValue?.reason) {
-					logger.info(
-						{ reason: interruptValue.reason },
-						"Account password interruption reason",
-					);
-				}
-
-				const message =
-					interruptValue?.message ??
-					"Please provide your account password to continue login.";
-				const answer = (await rl.question(`${message}\n> `)).trim();
-
-				resumeValue = {
-					type: "account_password",
-					action: "provide_password",
-					password: answer,
-				};
-			} else {
-				const message =
-					interruptValue?.message ??
-					"Review submission: type 'approve' to submit, or provide modification suggestions separated by ';'.";
-
-				if (interruptValue?.reviewSuggestions?.length) {
-					logger.info(
-						{ reviewSuggestions: interruptValue.reviewSuggestions },
-						"Review suggestions from interrupt",
-					);
-				}
-
-				const answer = (await rl.question(`${message}\n> `)).trim();
-				resumeValue =
-					answer.toLowerCase() === "approve"
-						? { action: "approve" }
-						: {
-								action: "modify",
-								suggestions: answer
-									.split(";")
-									.map((suggestion) => suggestion.trim())
-									.filter((suggestion) => suggestion.length > 0),
-							};
-			}
-
-			result = await agent.invoke(new Command({ resume: resumeValue }), config);
-		}
+		await program.parseAsync(process.argv);
 	} finally {
-		rl.close();
+		await closeStagehandInstance();
 	}
-
-	await new Promise(() => {});
 }
 
 const isMainModule =
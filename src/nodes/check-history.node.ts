@@ -0,0 +1,55 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { Command, END, type GraphNode } from "@langchain/langgraph";
+import { logger } from "../index.js";
+import type { AgentStateType } from "../states/state.js";
+import {
+	findPreviousSubmission,
+	recordHistoryEvent,
+} from "../stores/history.store.js";
+import { describeJobPosting } from "../utils/job-posting.js";
+import { getThreadId } from "../utils/thread.js";
+import type { NodeName } from "./node.types.js";
+
+export const checkHistoryNode: GraphNode<
+	AgentStateType,
+	RunnableConfig,
+	NodeName
+> = async (state, config) => {
+	const threadId = getThreadId(config);
+	const previousSubmission = await findPreviousSubmission(
+		state.jobUrl,
+		state.jobPosting,
+		threadId,
+	);
+
+	if (previousSubmission && !state.force) {
+		const skipReason = `Already applied on ${previousSubmission.timestamp} (thread ${previousSubmission.threadId}). Use --force to apply again.`;
+		logger.warn(
+			{ previousSubmission, job: describeJobPosting(state.jobPosting) },
+			"Posting was already submitted, skipping application.",
+		);
+		await recordHistoryEvent(threadId, state, "skipped", {
+			detail: skipReason,
+		});
+
+		return new Command({
+			update: {
+				skipReason,
+			},
+			goto: END,
+		});
+	}
+
+	if (previousSubmission) {
+		logger.warn(
+			{ previousSubmission, job: describeJobPosting(state.jobPosting) },
+			"Posting was already submitted, applying again because --force was given.",
+		);
+	}
+
+	await recordHistoryEvent(threadId, state, "started");
+
+	return new Command({
+		goto: "FitAssessmentNode",
+	});
+};
@@ -0,0 +1,173 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { Command, type GraphNode, interrupt } from "@langchain/langgraph";
+import { logger } from "../index.js";
+import type { AgentStateType, ApplicantDocument } from "../states/state.js";
+import { appConfig } from "../utils/config.js";
+import {
+	draftCoverLetter,
+	getCoverLetterPath,
+	renderCoverLetterPdf,
+} from "../utils/cover-letter.js";
+import { getStagehandInstance } from "../utils/instances.js";
+import { getThreadId } from "../utils/thread.js";
+import type { NodeName } from "./node.types.js";
+
+type CoverLetterDecision =
+	| string
+	| {
+			type?: string;
+			action?: "approve" | "edit" | "revise" | "skip";
+			coverLetter?: string;
+			feedback?: string;
+	  };
+
+function parseDecision(decision: CoverLetterDecision): {
+	action: "approve" | "revise" | "skip" | "reprompt";
+	coverLetter?: string;
+	feedback?: string;
+} {
+	if (typeof decision === "string") {
+		const normalized = decision.trim().toLowerCase();
+		if (normalized === "approve" || normalized === "skip") {
+			return { action: normalized };
+		}
+		return normalized
+			? { action: "revise", feedback: decision.trim() }
+			: { action: "reprompt" };
+	}
+
+	switch (decision.action) {
+		case "skip":
+			return { action: "skip" };
+		case "approve":
+			return { action: "approve" };
+		case "revise":
+			return decision.feedback?.trim()
+				? { action: "revise", feedback: decision.feedback.trim() }
+				: { action: "reprompt" };
+		default:
+			// An edited letter is approved as-is; an emptied one asks again.
+			return decision.coverLetter?.trim()
+				? { action: "approve", coverLetter: decision.coverLetter.trim() }
+				: { action: "reprompt" };
+	}
+}
+
+/**
+ * Drafts a cover letter and asks for a review. Each draft is stored in
+ * state before the interrupt, so resuming only replays the review, not the
+ * model call; a redraft loops back through this node the same way.
+ */
+export const coverLetterNode: GraphNode<
+	AgentStateType,
+	RunnableConfig,
+	NodeName
+> = async (state, config) => {
+	const documents = state.documents ?? [];
+	const providedCoverLetter = documents.find(
+		(document) => document.kind === "cover_letter",
+	);
+	if (providedCoverLetter) {
+		logger.info(
+			{ path: providedCoverLetter.path },
+			"Using the provided cover letter instead of drafting one.",
+		);
+		return new Command({
+			update: { coverLetter: providedCoverLetter.text },
+			goto: "HandleAccountNode",
+		});
+	}
+
+	if (state.coverLetterEnabled === false || !appConfig.coverLetter.enabled) {
+		logger.info("Cover letter drafting is off, continuing without one.");
+		return new Command({ goto: "HandleAccountNode" });
+	}
+
+	const posting = state.jobPosting;
+	if (!posting || (!posting.description && posting.requirements.length === 0)) {
+		logger.warn(
+			"No job description was extracted, continuing without a cover letter.",
+		);
+		return new Command({ goto: "HandleAccountNode" });
+	}
+
+	const draftOptions = {
+		posting,
+		applicantProfile: state.applicantProfile,
+		resumeText: state.resumeText,
+		extraPrompts: state.extraPrompts,
+	};
+	if (!state.coverLetterDraft) {
+		return new Command({
+			update: { coverLetterDraft: await draftCoverLetter(draftOptions) },
+			goto: "CoverLetterNode",
+		});
+	}
+
+	let coverLetter = state.coverLetterDraft;
+	for (;;) {
+		logger.info("Cover letter drafted. Waiting for user review via interrupt.");
+		const decision: CoverLetterDecision = interrupt({
+			type: "cover_letter_review",
+			message:
+				"Review the drafted cover letter: approve it, edit it, give feedback to redraft, or skip.",
+			coverLetter,
+		});
+
+		const parsed = parseDecision(decision);
+		if (parsed.action === "reprompt") {
+			logger.warn("Empty cover letter review, asking again.");
+			continue;
+		}
+
+		if (parsed.action === "skip") {
+			logger.info("Cover letter skipped by user.");
+			return new Command({
+				update: { coverLetterDraft: undefined },
+				goto: "HandleAccountNode",
+			});
+		}
+
+		if (parsed.action === "revise") {
+			logger.info(
+				{ feedback: parsed.feedback },
+				"Redrafting cover letter with user feedback.",
+			);
+			return new Command({
+				update: {
+					coverLetterDraft: await draftCoverLetter({
+						...draftOptions,
+						previousDraft: coverLetter,
+						feedback: parsed.feedback,
+					}),
+				},
+				goto: "CoverLetterNode",
+			});
+		}
+
+		coverLetter = parsed.coverLetter ?? coverLetter;
+		break;
+	}
+
+	const coverLetterPath = getCoverLetterPath(getThreadId(config), posting);
+	const stagehand = await getStagehandInstance();
+	await renderCoverLetterPdf(stagehand, coverLetter, coverLetterPath);
+	logger.info({ coverLetterPath }, "Cover letter approved and saved as PDF.");
+
+	const coverLetterDocument: ApplicantDocument = {
+		label: "cover_letter",
+		path: coverLetterPath,
+		kind: "cover_letter",
+		mimeType: "application/pdf",
+		text: coverLetter,
+	};
+
+	return new Command({
+		update: {
+			coverLetter,
+			coverLetterDraft: undefined,
+			documents: [...documents, coverLetterDocument],
+		},
+		goto: "HandleAccountNode",
+	});
+};
@@ -0,0 +1,92 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { Command, type GraphNode } from "@langchain/langgraph";
+import { selectAtsAdapter } from "../ats/registry.js";
+import { logger } from "../index.js";
+import {
+	type AgentStateType,
+	type JobPosting,
+	jobPostingSchema,
+} from "../states/state.js";
+import { createError, withRetry } from "../utils/errors.js";
+import { getStagehandInstance } from "../utils/instances.js";
+import {
+	describeJobPosting,
+	detectAtsVendorFromUrl,
+} from "../utils/job-posting.js";
+import { toStagehandModel } from "../utils/model-provider.js";
+import { getModelRoute, runWithModelFallback } from "../utils/model-routing.js";
+import { getThreadId } from "../utils/thread.js";
+import type { NodeName } from "./node.types.js";
+
+export const extractJobPostingNode: GraphNode<
+	AgentStateType,
+	RunnableConfig,
+	NodeName
+> = async (state, config) => {
+	const stagehand = await getStagehandInstance();
+	const page = stagehand.context.pages()[0];
+
+	if (!page) {
+		logger.error("No page found in browser context.");
+		throw createError("action_failure", "No page found in browser context.");
+	}
+
+	await withRetry("open job posting", () => page.goto(state.jobUrl));
+
+	let jobPosting: JobPosting = { requirements: [] };
+	try {
+		jobPosting = await runWithModelFallback(
+			getModelRoute("detection"),
+			(settings) =>
+				stagehand.extract(
+					`Extract the job posting on this page: hiring company, job title, location, employment type (co-op, internship, full-time, part-time, contract or other), the full job description, the listed requirements/qualifications, the application deadline as YYYY-MM-DD if one is stated, and the applicant tracking system hosting it (e.g. greenhouse, lever, workday) if recognizable.`,
+					jobPostingSchema,
+					{ model: toStagehandModel(settings) },
+				),
+		);
+	} catch (error) {
+		logger.warn(
+			{ error },
+			"Unable to extract the job posting, continuing with the URL only.",
+		);
+	}
+
+	// The URL is more reliable than the page for well-known ATS hosts.
+	const atsVendor =
+		detectAtsVendorFromUrl(page.url()) ??
+		detectAtsVendorFromUrl(state.jobUrl) ??
+		jobPosting.atsVendor?.trim().toLowerCase();
+
+	jobPosting = { ...jobPosting, atsVendor };
+
+	const { adapter, reason } = await selectAtsAdapter({
+		override: state.atsOverride,
+		urls: [page.url(), state.jobUrl],
+		page,
+	});
+	logger.info(
+		{ atsAdapter: adapter?.vendor ?? "none", reason },
+		adapter
+			? "Selected ATS adapter"
+			: "No ATS adapter selected, the agent handles the whole form",
+	);
+
+	logger.info(
+		{
+			threadId: getThreadId(config),
+			job: describeJobPosting(jobPosting),
+			employmentType: jobPosting.employmentType,
+			deadline: jobPosting.deadline,
+			atsVendor,
+		},
+		"Extracted job posting",
+	);
+
+	return new Command({
+		update: {
+			jobPosting,
+			atsAdapter: adapter?.vendor,
+		},
+		goto: "CheckHistoryNode",
+	});
+};
@@ -1,11 +1,30 @@
+import type { AgentExecuteOptions } from "@browserbasehq/stagehand";
 import type { RunnableConfig } from "@langchain/core/runnables";
-import { type GraphNode, interrupt } from "@langchain/langgraph";
+import { Command, END, type GraphNode, interrupt } from "@langchain/langgraph";
 import z from "zod";
+import { fillKnownFields } from "../ats/fill-fields.js";
+import { getAtsAdapter } from "../ats/registry.js";
 import { logger } from "../index.js";
-import type { AgentStateType } from "../states/state.js";
-import { createUploadResumeTool } from "../tools/upload-resume.tool.js";
-import { envVars } from "../utils/env.js";
+import type { AgentStateType, ApplicantDocument } from "../states/state.js";
+import { lookupAnswers, saveAnswer } from "../stores/answer-bank.store.js";
+import { recordHistoryEvent } from "../stores/history.store.js";
+import { captureStep } from "../stores/run-artifacts.store.js";
+import { createRecordPageFieldsTool } from "../tools/record-page-fields.tool.js";
+import { createUploadDocumentTool } from "../tools/upload-document.tool.js";
+import { runWithActionCache, toCacheVariables } from "../utils/action-cache.js";
+import { formatApplicantProfile } from "../utils/applicant-profile.js";
+import { describeBudgetOverrun, readRemainingBudget } from "../utils/budget.js";
+import { createError, withRetry } from "../utils/errors.js";
+import { mergeFormPage } from "../utils/field-snapshot.js";
 import { getStagehandInstance } from "../utils/instances.js";
+import { formatJobPostingForPrompt } from "../utils/job-posting.js";
+import { toStagehandModel } from "../utils/model-provider.js";
+import {
+	getModelRoute,
+	isAgentModelFailure,
+	runWithModelFallback,
+} from "../utils/model-routing.js";
+import { getThreadId } from "../utils/thread.js";
 import type { NodeName } from "./node.types.js";
 
 const fillExecutionOutputSchema = z.object({
@@ -30,10 +49,13 @@ type MissingInfoInterruptDecision =
 	| {
 			type?: string;
 			additionalInformation?: string;
+			answers?: Record<string, string>;
 			message?: string;
 			reason?: string;
 	  };
 
+type QuestionAnswer = { question: string; answer: string };
+
 function normalizeAdditionalInformation(
 	decision: MissingInfoInterruptDecision,
 ): string {
@@ -46,6 +68,36 @@ function normalizeAdditionalInformation(
 	);
 }
 
+/**
+ * Pairs the user's reply with the questions that were asked, so they can be
+ * stored in the answer bank. Free-text replies only pair up when a single
+ * question was asked.
+ */
+function extractQuestionAnswers(
+	decision: MissingInfoInterruptDecision,
+	questions: string[],
+): QuestionAnswer[] {
+	if (typeof decision !== "string" && decision.answers) {
+		return Object.entries(decision.answers)
+			.map(([question, answer]) => ({ question, answer: answer.trim() }))
+			.filter(({ answer }) => answer.length > 0);
+	}
+
+	const additionalInformation = normalizeAdditionalInformation(decision);
+	const [question] = questions;
+	if (questions.length === 1 && question && additionalInformation) {
+		return [{ question, answer: additionalInformation }];
+	}
+
+	return [];
+}
+
+function formatQuestionAnswers(questionAnswers: QuestionAnswer[]): string {
+	return questionAnswers
+		.map(({ question, answer }) => `${question}: ${answer}`)
+		.join("\n");
+}
+
 function shouldRequestMoreInformation(
 	fillResponse: { success?: boolean; completed?: boolean },
 	structuredOutput: FillExecutionOutput,
@@ -99,57 +151,147 @@ export const fillFormNode: GraphNode<
 	AgentStateType,
 	RunnableConfig,
 	NodeName
-> = async (state) => {
+> = async (state, config) => {
 	const stagehand = await getStagehandInstance();
-	const { resumeText, reviewSuggestions } = state;
+	const { resumeText, applicantProfile, reviewSuggestions } = state;
+	const applicantInformation = applicantProfile
+		? formatApplicantProfile(applicantProfile)
+		: `Here is my resume:\n${resumeText}`;
 	let effectiveExtraPrompts = state.extraPrompts;
 	let effectiveFillContext = state.fillContext;
+	let formPages = state.formPages ?? [];
+
+	const finish = async (
+		fillStatus: NonNullable<AgentStateType["fillStatus"]>,
+	) => {
+		await recordHistoryEvent(getThreadId(config), state, "filled", {
+			fillStatus,
+		});
+		return new Command({
+			update: {
+				fillStatus,
+				formUrl: page.url(),
+				formPages,
+				extraPrompts: effectiveExtraPrompts,
+				fillContext: effectiveFillContext,
+			},
+			goto: "SnapshotFieldsNode",
+		});
+	};
 
 	const page = stagehand.context.pages()[0];
 	if (!page) {
 		logger.error("No page found in the context.");
-		throw new Error("No page found in the context.");
+		throw createError("action_failure", "No page found in the context.");
 	}
 
+	const atsAdapter = getAtsAdapter(state.atsAdapter);
 	if (!initializedPages.has(page)) {
 		logger.info(
 			{ currentPageUrl: page.url(), jobUrl: state.jobUrl },
 			"Navigating to job application page",
 		);
-		await page.goto(state.jobUrl);
+		await withRetry("open application", () => page.goto(state.jobUrl));
 		initializedPages.add(page);
+		try {
+			await atsAdapter?.openApplication?.({ page, state });
+		} catch (error) {
+			logger.warn(
+				{ vendor: atsAdapter?.vendor, error },
+				"ATS adapter could not open the application, leaving it to the agent.",
+			);
+		}
 	}
 
-	const agent = stagehand.agent({
-		mode: "hybrid",
-		model: {
-			modelName: envVars.MODEL_NAME,
-			apiKey: envVars.AI_API_KEY,
+	const route = getModelRoute("formFill");
+	const documents: ApplicantDocument[] = state.documents ?? [
+		{ label: "resume", path: state.resumePath, kind: "resume" },
+	];
+	const uploadDocument = createUploadDocumentTool({ page, documents });
+	const recordPageFields = createRecordPageFieldsTool({
+		stagehand,
+		onRecord: (formPage) => {
+			formPages = mergeFormPage(formPages, formPage);
 		},
-		tools: {
-			uploadResume: createUploadResumeTool({
-				page,
-				defaultResumePath: state.resumePath,
-			}),
-		},
-		systemPrompt:
-			"You're a helpful assistant that can control a web browser. I need you to help me submit co-op job applications.",
 	});
+	const tools = { uploadDocument, recordPageFields };
+	const variables = toCacheVariables({
+		profile: applicantProfile,
+		coverLetter: state.coverLetter,
+	});
+	const executeAgent = (options: AgentExecuteOptions, cacheable: boolean) =>
+		runWithActionCache(
+			{
+				stagehand,
+				page,
+				step: "fill form",
+				ats: state.atsAdapter,
+				variables,
+				enabled: state.actionCache !== false && cacheable,
+				tools,
+			},
+			() =>
+				runWithModelFallback(
+					route,
+					(settings) =>
+						stagehand
+							.agent({
+								mode: "hybrid",
+								model: toStagehandModel(settings),
+								tools,
+								systemPrompt:
+									"You're a helpful assistant that can control a web browser. I need you to help me submit co-op job applications.",
+							})
+							.execute(options),
+					isAgentModelFailure,
+				),
+		);
+
+	// The adapter fills what it can map; the agent gets the rest.
+	const prefilled = atsAdapter
+		? await fillKnownFields(atsAdapter, { page, state }, documents)
+		: undefined;
+	const prefilledNote =
+		prefilled &&
+		(prefilled.filledFields.length > 0 ||
+			prefilled.uploadedDocuments.length > 0)
+			? `These fields were already filled from my profile, leave them as they are unless clearly wrong: ${[...prefilled.filledFields, ...prefilled.uploadedDocuments].join("; ")}.`
+			: "";
 
 	for (let attempt = 0; attempt < 3; attempt += 1) {
+		// The node start only checked the budget before the first attempt.
+		const remaining = await readRemainingBudget(state);
+		if (remaining.overrun) {
+			logger.warn(
+				{ ...remaining.overrun, attempt: attempt + 1 },
+				"Run budget reached while filling the form, stopping here.",
+			);
+			return finish({
+				success: false,
+				message: `Stopped filling at the run budget. ${describeBudgetOverrun(remaining.overrun)}`,
+				completed: false,
+			});
+		}
+		const maxSteps =
+			route.maxSteps === undefined || remaining.steps === undefined
+				? (route.maxSteps ?? remaining.steps)
+				: Math.min(route.maxSteps, remaining.steps);
+
 		const resumedMissingInformation =
 			effectiveFillContext?.missingInformation
 				?.map((detail) => detail.trim())
 				.filter((detail) => detail.length > 0) ?? [];
 
-		const fillResponse = await agent.execute({
-			instruction: `
+		const instruction = `
 		    		Please fill out the application form on this website based on the information and resources I provided.
-		    		If the form includes a resume/CV upload input, use the uploadResume tool to attach my resume file before continuing.
+		    		For every file upload input (resume/CV, cover letter, transcript, portfolio, etc.), use the uploadDocument tool with the field's label to attach the matching document before continuing.
+		    		When you have filled a page of the form, call the recordPageFields tool before going to the next page.
+		    		${prefilledNote}
 		    		${resumedMissingInformation.length > 0 ? `\n\nThis is a resumed run. Continue from the current form state and focus only on unresolved required fields: ${resumedMissingInformation.join("; ")}. Do not re-process fields that are already filled unless they are clearly incorrect.` : ""}
 		    		\n\n
-		    		Here is my resume:
-		    		${resumeText}
+		    		${state.jobPosting ? formatJobPostingForPrompt(state.jobPosting) : ""}
+		    		${applicantInformation}
+		    		${state.coverLetter ? `\n\nIf the form asks for a cover letter as text instead of a file, paste this cover letter verbatim:\n${state.coverLetter}` : ""}
 		    		${effectiveExtraPrompts ? `\n\nAdditional instructions:\n${effectiveExtraPrompts}` : ""}
           ${
 						reviewSuggestions && reviewSuggestions.length > 0
@@ -164,10 +306,28 @@ export const fillFormNode: GraphNode<
 		    		Set needsMoreInformation=true whenever any required form field cannot be confidently completed with available data.
 		    		When needsMoreInformation=true, list every missing field/detail in missingInformation.
 		    		DO NOT CLICK THE SUBMIT BUTTON.
-		    	`,
-			highlightCursor: true,
-			output: fillExecutionOutputSchema,
-		});
+		    	`;
+		const fillResponse = await captureStep(
+			{
+				threadId: getThreadId(config),
+				page,
+				node: "FillFormNode",
+				step: `fill attempt ${attempt + 1}`,
+				instruction,
+			},
+			() =>
+				executeAgent(
+					{
+						instruction,
+						maxSteps,
+						highlightCursor: true,
+						output: fillExecutionOutputSchema,
+					},
+					// Only the first fill of a posting: later attempts and review
+					// rounds act on answers and suggestions a replay would ignore.
+					!effectiveFillContext?.attemptCount && !reviewSuggestions?.length,
+				),
+		);
 
 		const structuredOutput = extractStructuredOutput(fillResponse);
 		const { success, message, completed } = fillResponse;
@@ -183,49 +343,76 @@ export const fillFormNode: GraphNode<
 		);
 
 		if (!needsMoreInformation || attempt === 2) {
-			return {
-				fillStatus: {
-					success,
-					message,
-					completed,
-				},
-				extraPrompts: effectiveExtraPrompts,
-				fillContext: effectiveFillContext,
-			};
+			return finish({
+				success,
+				message,
+				completed,
+			});
+		}
+
+		const missingDetails = structuredOutput.missingInformation
+			.map((detail) => detail.trim())
+			.filter((detail) => detail.length > 0);
+
+		const { answered, unanswered } = await lookupAnswers(missingDetails);
+		if (answered.length > 0) {
+			logger.info(
+				{ answered },
+				"Answered missing application information from the answer bank.",
+			);
+			effectiveExtraPrompts = mergeExtraPrompts(
+				effectiveExtraPrompts,
+				formatQuestionAnswers(answered),
+			);
+		}
+
+		if (missingDetails.length > 0 && unanswered.length === 0) {
+			continue;
 		}
 
 		logger.info(
-			{ message, missingInformation: structuredOutput.missingInformation },
+			{ message, missingInformation: unanswered },
 			"Fill form needs more applicant information. Requesting user input via interrupt.",
 		);
 
-		const missingDetails = structuredOutput.missingInformation
-			.map((detail) => detail.trim())
-			.filter((detail) => detail.length > 0);
 		const reason =
-			missingDetails.length > 0
-				? `Missing required information: ${missingDetails.join("; ")}`
+			unanswered.length > 0
+				? `Missing required information: ${unanswered.join("; ")}`
 				: message;
 
-		const decision = interrupt<MissingInfoInterruptDecision>({
+		const decision: MissingInfoInterruptDecision = interrupt({
 			type: "missing_application_information",
 			message:
 				"More applicant information is required to continue this application. Provide the missing details (single line or semicolon-separated).",
 			reason,
+			questions: unanswered,
 		});
 
-		const additionalInformation = normalizeAdditionalInformation(decision);
+		if (typeof decision !== "string" && decision.type === "skip") {
+			const skipReason = `Skipped for missing information: ${reason}`;
+			logger.info("Skipping the application instead of answering.");
+			await recordHistoryEvent(getThreadId(config), state, "skipped", {
+				detail: skipReason,
+			});
+			return new Command({ update: { skipReason }, goto: END });
+		}
+
+		const questionAnswers = extractQuestionAnswers(decision, unanswered);
+		for (const { question, answer } of questionAnswers) {
+			await saveAnswer(question, answer);
+		}
+
+		const additionalInformation =
+			questionAnswers.length > 0
+				? formatQuestionAnswers(questionAnswers)
+				: normalizeAdditionalInformation(decision);
 		if (!additionalInformation) {
-			return {
-				fillStatus: {
-					success: false,
-					message:
-						"Application requires more information, but no additional details were provided.",
-					completed: false,
-				},
-				extraPrompts: effectiveExtraPrompts,
-				fillContext: effectiveFillContext,
-			};
+			return finish({
+				success: false,
+				message:
+					"Application requires more information, but no additional details were provided.",
+				completed: false,
+			});
 		}
 
 		effectiveExtraPrompts = mergeExtraPrompts(
@@ -234,13 +421,9 @@ export const fillFormNode: GraphNode<
 		);
 	}
 
-	return {
-		fillStatus: {
-			success: false,
-			message: "Unable to complete form filling after repeated attempts.",
-			completed: false,
-		},
-		extraPrompts: effectiveExtraPrompts,
-		fillContext: effectiveFillContext,
-	};
+	return finish({
+		success: false,
+		message: "Unable to complete form filling after repeated attempts.",
+		completed: false,
+	});
 };
@@ -0,0 +1,91 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { Command, END, type GraphNode, interrupt } from "@langchain/langgraph";
+import { logger } from "../index.js";
+import type { AgentStateType } from "../states/state.js";
+import { recordHistoryEvent } from "../stores/history.store.js";
+import { appConfig } from "../utils/config.js";
+import { assessFit } from "../utils/fit-assessment.js";
+import { describeJobPosting } from "../utils/job-posting.js";
+import { getThreadId } from "../utils/thread.js";
+import type { NodeName } from "./node.types.js";
+
+type FitDecision =
+	| string
+	| {
+			type?: string;
+			action?: "continue" | "skip";
+	  };
+
+function shouldContinue(decision: FitDecision): boolean {
+	const action =
+		typeof decision === "string" ? decision : (decision.action ?? "");
+	return ["continue", "yes", "y"].includes(action.trim().toLowerCase());
+}
+
+export const fitAssessmentNode: GraphNode<
+	AgentStateType,
+	RunnableConfig,
+	NodeName
+> = async (state, config) => {
+	const { fit } = appConfig;
+	if (!fit.enabled || !state.jobPosting) {
+		return new Command({ goto: "CoverLetterNode" });
+	}
+
+	const threadId = getThreadId(config);
+	const fitAssessment = await assessFit({
+		jobPosting: state.jobPosting,
+		constraints: fit.constraints,
+		applicantProfile: state.applicantProfile,
+		resumeText: state.resumeText,
+	});
+	const job = describeJobPosting(state.jobPosting);
+
+	const lowFit =
+		fitAssessment.score < fit.threshold ||
+		fitAssessment.failedConstraints.length > 0;
+	if (!lowFit) {
+		logger.info(
+			{ job, score: fitAssessment.score, reasons: fitAssessment.reasons },
+			"Fit assessment passed",
+		);
+		return new Command({
+			update: { fitAssessment },
+			goto: "CoverLetterNode",
+		});
+	}
+
+	logger.warn(
+		{ job, threshold: fit.threshold, ...fitAssessment },
+		"Posting looks like a poor fit",
+	);
+
+	if (fit.onLowFit === "ask") {
+		const decision: FitDecision = interrupt({
+			type: "fit_confirmation",
+			message: `Fit score ${fitAssessment.score}/100 is below ${fit.threshold} or a hard constraint failed. Continue applying anyway?`,
+			job,
+			jobUrl: state.jobUrl,
+			fitAssessment,
+		});
+
+		if (shouldContinue(decision)) {
+			logger.info("Continuing despite low fit, as requested by user.");
+			return new Command({
+				update: { fitAssessment },
+				goto: "CoverLetterNode",
+			});
+		}
+	}
+
+	const skipReason =
+		fitAssessment.failedConstraints.length > 0
+			? `Failed hard constraints: ${fitAssessment.failedConstraints.join("; ")}`
+			: `Fit score ${fitAssessment.score} is below threshold ${fit.threshold}: ${fitAssessment.reasons.join("; ")}`;
+	await recordHistoryEvent(threadId, state, "skipped", { detail: skipReason });
+
+	return new Command({
+		update: { fitAssessment, skipReason },
+		goto: END,
+	});
+};
@@ -1,10 +1,36 @@
+import type { AgentExecuteOptions } from "@browserbasehq/stagehand";
 import type { RunnableConfig } from "@langchain/core/runnables";
-import { type GraphNode, interrupt } from "@langchain/langgraph";
+import { Command, END, type GraphNode, interrupt } from "@langchain/langgraph";
 import z from "zod";
+import { getAtsAdapter } from "../ats/registry.js";
 import { logger } from "../index.js";
 import type { AgentStateType } from "../states/state.js";
+import {
+	findCredential,
+	generatePassword,
+	getCredentialKey,
+	markCredentialUsed,
+	saveCredential,
+} from "../stores/credential-vault.store.js";
+import { recordHistoryEvent } from "../stores/history.store.js";
+import { captureStep, registerSecret } from "../stores/run-artifacts.store.js";
+import { runWithActionCache } from "../utils/action-cache.js";
+import type { ModelTask } from "../utils/config.js";
 import { envVars } from "../utils/env.js";
+import { createError, withRetry } from "../utils/errors.js";
 import { getStagehandInstance } from "../utils/instances.js";
+import {
+	getVerificationSenderDomains,
+	type VerificationEmail,
+	waitForVerificationEmail,
+} from "../utils/mailbox.js";
+import { toStagehandModel } from "../utils/model-provider.js";
+import {
+	getModelRoute,
+	isAgentModelFailure,
+	runWithModelFallback,
+} from "../utils/model-routing.js";
+import { getThreadId } from "../utils/thread.js";
 import type { NodeName } from "./node.types.js";
 
 const accountRequirementSchema = z.object({
@@ -165,6 +191,27 @@ function parseVerificationDecision(decision: AccountVerificationDecision): {
 	return { verificationCode };
 }
 
+// Threads whose mailbox wait already timed out in this process. The node
+// replays from the top when the verification interrupt is answered, and
+// waiting for the mailbox again would only delay the answer.
+const mailboxTimedOutThreads = new Set<string>();
+
+async function waitForMailboxVerification(
+	threadId: string | undefined,
+	options: { senderDomains: string[]; since: Date },
+): Promise<VerificationEmail | undefined> {
+	const key = threadId ?? "";
+	if (mailboxTimedOutThreads.has(key)) {
+		return undefined;
+	}
+
+	const email = await waitForVerificationEmail(options);
+	if (!email) {
+		mailboxTimedOutThreads.add(key);
+	}
+	return email;
+}
+
 function parsePasswordDecision(decision: AccountPasswordDecision): {
 	password?: string;
 } {
@@ -190,29 +237,80 @@ export const handleAccountNode: GraphNode<
 	AgentStateType,
 	RunnableConfig,
 	NodeName
-> = async (state) => {
+> = async (state, config) => {
+	const threadId = getThreadId(config);
 	const stagehand = await getStagehandInstance();
 	const page = stagehand.context.pages()[0];
 
 	if (!page) {
 		logger.error("No page found in browser context.");
-		throw new Error("No page found in browser context.");
+		throw createError("action_failure", "No page found in browser context.");
 	}
 
-	await page.goto(state.jobUrl);
+	await withRetry("open job posting", () => page.goto(state.jobUrl));
+
+	const executeAgent = (
+		task: ModelTask,
+		step: string,
+		options: AgentExecuteOptions,
+	) => {
+		const route = getModelRoute(task);
+		return runWithActionCache(
+			{
+				stagehand,
+				page,
+				step,
+				ats: state.atsAdapter,
+				// Account setup types passwords and codes, which must not be stored.
+				enabled: state.actionCache !== false && task === "detection",
+			},
+			() =>
+				runWithModelFallback(
+					route,
+					(settings) =>
+						stagehand
+							.agent({
+								mode: "hybrid",
+								model: toStagehandModel(settings),
+								systemPrompt:
+									"You're a helpful assistant that can control a web browser to complete job applications.",
+							})
+							.execute({ maxSteps: route.maxSteps, ...options }),
+					isAgentModelFailure,
+				),
+		);
+	};
 
-	const agent = stagehand.agent({
-		mode: "hybrid",
-		model: {
-			modelName: envVars.MODEL_NAME,
-			apiKey: envVars.AI_API_KEY,
-		},
-		systemPrompt:
-			"You're a helpful assistant that can control a web browser to complete job applications.",
-	});
+	// Known ATS open their form and tell whether an account is needed
+	// without an agent run.
+	const atsAdapter = getAtsAdapter(state.atsAdapter);
+	let accountRequirement: z.infer<typeof accountRequirementSchema> | undefined;
+	if (atsAdapter) {
+		try {
+			await atsAdapter.openApplication?.({ page, state });
+			accountRequirement = await atsAdapter.detectAccountRequirement?.({
+				page,
+				state,
+			});
+		} catch (error) {
+			logger.warn(
+				{ vendor: atsAdapter.vendor, error },
+				"ATS adapter could not open the application, falling back to the agent.",
+			);
+		}
+	}
 
-	const accountRequirementResponse = await agent.execute({
-		instruction: `
+	if (!accountRequirement) {
+		const accountRequirementResponse = await captureStep(
+			{
+				threadId,
+				page,
+				node: "HandleAccountNode",
+				step: "detect account requirement",
+			},
+			() =>
+				executeAgent("detection", "detect account requirement", {
+					instruction: `
 			From the current job posting page, click the main apply/application button to enter the employer's application flow.
 			Then determine whether creating/logging into an account is required before reaching the application form.
             Only determine if account creation/login is required, do not attempt to create an account or log in at this step.
@@ -222,25 +320,76 @@ export const handleAccountNode: GraphNode<
             If there's already a "upload resume" button, it is likely that no account is required.
 			Return output that strictly matches the schema.
 		`,
-		highlightCursor: true,
-		output: accountRequirementSchema,
-	});
-	const accountRequirement = extractAccountRequirement(
-		accountRequirementResponse,
-	);
+					highlightCursor: true,
+					output: accountRequirementSchema,
+				}),
+		);
+		accountRequirement = extractAccountRequirement(accountRequirementResponse);
+	}
 
 	if (!accountRequirement.accountRequired) {
-		return {};
+		await recordHistoryEvent(threadId, state, "account_handled", {
+			detail: "No account required.",
+		});
+		return new Command({ goto: "FillFormNode" });
 	}
 
-	if (!envVars.ACCOUNT_EMAIL) {
-		throw new Error(
+	const skip = async (skipReason: string) => {
+		logger.info({ skipReason }, "Skipping the application.");
+		await recordHistoryEvent(threadId, state, "skipped", {
+			detail: skipReason,
+		});
+		return new Command({ update: { skipReason }, goto: END });
+	};
+
+	// Credentials are stored per ATS tenant, so key them by the page the
+	// apply button led to rather than the posting URL.
+	const credentialKey =
+		getCredentialKey(page.url()) ?? getCredentialKey(state.jobUrl);
+	const vaultPassphrase = envVars.VAULT_PASSPHRASE;
+	const storedCredential =
+		vaultPassphrase && credentialKey
+			? await findCredential(vaultPassphrase, credentialKey)
+			: undefined;
+
+	const accountEmail = storedCredential?.email ?? envVars.ACCOUNT_EMAIL;
+	if (!accountEmail) {
+		throw createError(
+			"auth_failure",
 			"This application requires account creation/login, but ACCOUNT_EMAIL is missing in .env.",
 		);
 	}
 
-	let accountPassword = envVars.ACCOUNT_PASSWORD;
-	if (accountRequirement.existingAccountDetected) {
+	const rememberCredential = async (credential: {
+		password: string;
+		generated: boolean;
+	}) => {
+		if (!vaultPassphrase || !credentialKey) {
+			return;
+		}
+
+		await saveCredential(vaultPassphrase, {
+			key: credentialKey,
+			email: accountEmail,
+			loginUrl: page.url(),
+			atsVendor: state.jobPosting?.atsVendor,
+			...credential,
+		});
+		logger.info(
+			{ credentialKey },
+			"Saved the account credential to the vault.",
+		);
+	};
+
+	let accountPassword = storedCredential?.password;
+	let credentialToRemember: { password: string; generated: boolean } | null =
+		null;
+	if (accountPassword) {
+		logger.info(
+			{ credentialKey },
+			"Using the stored credential for this ATS tenant.",
+		);
+	} else if (accountRequirement.existingAccountDetected) {
 		const decision = interrupt<AccountPasswordDecision>({
 			type: "account_password",
 			message:
@@ -250,85 +399,156 @@ export const handleAccountNode: GraphNode<
 				"Returning-user login flow detected before application form.",
 		});
 
+		if (typeof decision !== "string" && decision.action === "skip") {
+			return skip("Skipped at the existing account login.");
+		}
+
 		const { password } = parsePasswordDecision(decision);
 		if (!password) {
-			throw new Error(
+			throw createError(
+				"auth_failure",
 				"A password is required to log into your existing account.",
 			);
 		}
 
 		accountPassword = password;
-	} else if (!accountPassword) {
-		throw new Error(
-			"This application requires account creation/login, but ACCOUNT_PASSWORD is missing in .env.",
+		credentialToRemember = { password, generated: false };
+	} else if (vaultPassphrase && credentialKey) {
+		accountPassword = generatePassword();
+		// Saved before the account exists, so a run that stops midway does
+		// not lose the password of an account it already created.
+		await rememberCredential({ password: accountPassword, generated: true });
+	} else if (envVars.ACCOUNT_PASSWORD) {
+		accountPassword = envVars.ACCOUNT_PASSWORD;
+	} else {
+		throw createError(
+			"auth_failure",
+			"This application requires account creation/login, but ACCOUNT_PASSWORD is missing in .env. Set VAULT_PASSPHRASE to generate a password per employer instead.",
 		);
 	}
+	registerSecret(accountPassword);
+
+	const finish = async (detail: string) => {
+		// A password typed into the interrupt is only kept once it worked.
+		if (credentialToRemember) {
+			await rememberCredential(credentialToRemember);
+		} else if (storedCredential && vaultPassphrase) {
+			await markCredentialUsed(vaultPassphrase, storedCredential.key);
+		}
+		await recordHistoryEvent(threadId, state, "account_handled", { detail });
+		return new Command({ goto: "FillFormNode" });
+	};
 
 	const accountSetupInstruction = `			Complete all required account setup steps up to the point where the application becomes accessible.
-        Use this account email when prompted: ${envVars.ACCOUNT_EMAIL}
+        Use this account email when prompted: ${accountEmail}
         Use this account password when prompted: ${accountPassword}
         If email verification is required, stop at that step and set requiresVerification=true.
         If verification is not required or is already complete, continue until logged in and application is accessible.
         Return output that strictly matches the schema.
     `;
-	logger.debug(`Account setup instruction: ${accountSetupInstruction}`);
-	const accountSetupResponse = await agent.execute({
-		instruction: accountSetupInstruction,
-		highlightCursor: true,
-		output: accountSetupSchema,
-	});
+	const accountSetupStartedAt = new Date();
+	const accountSetupResponse = await captureStep(
+		{
+			threadId,
+			page,
+			node: "HandleAccountNode",
+			step: "account setup",
+			instruction: accountSetupInstruction,
+		},
+		() =>
+			executeAgent("accountSetup", "account setup", {
+				instruction: accountSetupInstruction,
+				highlightCursor: true,
+				output: accountSetupSchema,
+			}),
+	);
 	const accountSetup = extractAccountSetup(accountSetupResponse);
 
 	if (accountSetup.requiresVerification) {
-		const decision = interrupt<AccountVerificationDecision>({
-			type: "account_verification",
-			message:
-				"Email verification is required. Provide the verification code from your email, or click the verification link and type 'done' to continue.",
-			reason:
-				accountSetup.verificationInstructions ??
-				accountSetup.statusMessage ??
-				"Account verification required before login can complete.",
+		const email = await waitForMailboxVerification(threadId, {
+			senderDomains: getVerificationSenderDomains([page.url(), state.jobUrl]),
+			// Leave room for clock skew between this machine and the mail server.
+			since: new Date(accountSetupStartedAt.getTime() - 60_000),
 		});
 
-		const { verificationCode } = parseVerificationDecision(decision);
+		let verificationCode = email?.code;
+		if (email?.link && !email.code) {
+			logger.info("Opening the verification link from the email.");
+			const link = email.link;
+			await withRetry("open verification link", () => page.goto(link));
+		} else if (!email) {
+			const decision = interrupt<AccountVerificationDecision>({
+				type: "account_verification",
+				message:
+					"Email verification is required. Provide the verification code from your email, or click the verification link and type 'done' to continue.",
+				reason:
+					accountSetup.verificationInstructions ??
+					accountSetup.statusMessage ??
+					"Account verification required before login can complete.",
+			});
+			if (typeof decision !== "string" && decision.action === "skip") {
+				return skip("Skipped at account email verification.");
+			}
+			verificationCode = parseVerificationDecision(decision).verificationCode;
+		}
 
 		if (verificationCode) {
-			await agent.execute({
-				instruction: `
+			await captureStep(
+				{
+					threadId,
+					page,
+					node: "HandleAccountNode",
+					step: "enter verification code",
+				},
+				() =>
+					executeAgent("accountSetup", "enter verification code", {
+						instruction: `
 					Use this verification code to complete account verification and continue login: ${verificationCode}
 					After entering the code, continue until the application page is accessible while logged in.
 				`,
-				highlightCursor: true,
-			});
+						highlightCursor: true,
+					}),
+			);
 		}
 
-		const completionResponse = await agent.execute({
-			instruction: `
+		const completionResponse = await captureStep(
+			{
+				threadId,
+				page,
+				node: "HandleAccountNode",
+				step: "complete login",
+			},
+			() =>
+				executeAgent("accountSetup", "complete login", {
+					instruction: `
 				Continue from the current page and finish login after verification.
 				If verification was completed externally via email link, continue from the now-authenticated browser state.
 				Return output that strictly matches the schema.
 			`,
-			highlightCursor: true,
-			output: loginCompletionSchema,
-		});
+					highlightCursor: true,
+					output: loginCompletionSchema,
+				}),
+		);
 		const completion = extractLoginCompletion(completionResponse);
 
 		if (!completion.loggedIn) {
-			throw new Error(
+			throw createError(
+				"auth_failure",
 				completion.statusMessage ??
 					"Unable to complete login after verification step.",
 			);
 		}
 
-		return {};
+		return finish(completion.statusMessage ?? "Logged in after verification.");
 	}
 
 	if (!accountSetup.accountSetupComplete) {
-		throw new Error(
+		throw createError(
+			"auth_failure",
 			accountSetup.statusMessage ??
 				"Account setup did not complete successfully.",
 		);
 	}
 
-	return {};
+	return finish(accountSetup.statusMessage ?? "Account setup complete.");
 };
@@ -1,9 +1,16 @@
 import type { END, START } from "@langchain/langgraph";
 
 export type NodeName =
-		| "FillFormNode"
-		| "HandleAccountNode"
-		| "PrepareResourceNode"
-		| "SubmitNode"
-		| typeof START
-		| typeof END;
+	| "CheckHistoryNode"
+	| "CoverLetterNode"
+	| "ExtractJobPostingNode"
+	| "FillFormNode"
+	| "FitAssessmentNode"
+	| "HandleAccountNode"
+	| "PrepareResourceNode"
+	| "RecoveryNode"
+	| "SnapshotFieldsNode"
+	| "SubmitNode"
+	| "VerifySubmissionNode"
+	| typeof START
+	| typeof END;
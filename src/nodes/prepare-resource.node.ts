@@ -1,8 +1,16 @@
 import { readFile } from "node:fs/promises";
 import type { RunnableConfig } from "@langchain/core/runnables";
 import type { GraphNode } from "@langchain/langgraph";
-import { PDFParse } from "pdf-parse";
-import type { AgentStateType } from "../states/state.js";
+import { logger } from "../index.js";
+import type { AgentStateType, ApplicantDocument } from "../states/state.js";
+import {
+	extractApplicantProfile,
+	getDefaultProfilePath,
+	loadApplicantProfile,
+	saveApplicantProfile,
+} from "../utils/applicant-profile.js";
+import { appConfig } from "../utils/config.js";
+import { prepareDocuments } from "../utils/documents.js";
 import type { NodeName } from "./node.types.js";
 
 export const prepareResourceNode: GraphNode<
@@ -13,17 +21,44 @@ export const prepareResourceNode: GraphNode<
 	const resumePath = state.resumePath;
 	const extraPromptsPath = state.extraPromptsPath;
 
-	const parser = new PDFParse({
-		url: resumePath,
-	});
-	const resumeText = (await parser.getText()).text;
+	// CLI documents override config documents that share a label.
+	const documentsByLabel = new Map<string, ApplicantDocument>();
+	for (const document of [
+		{ label: "resume", path: resumePath, kind: "resume" as const },
+		...appConfig.documents,
+		...(state.documents ?? []),
+	]) {
+		documentsByLabel.set(document.label.toLowerCase(), document);
+	}
+	const documents = await prepareDocuments([...documentsByLabel.values()]);
+	const resumeText =
+		documents.find((document) => document.path === resumePath)?.text ?? "";
 
 	const extraPrompts = extraPromptsPath
 		? await readFile(extraPromptsPath, "utf-8")
 		: undefined;
 
+	const profilePath = state.profilePath ?? getDefaultProfilePath(resumePath);
+	let applicantProfile = state.refreshProfile
+		? undefined
+		: await loadApplicantProfile(profilePath);
+
+	if (applicantProfile) {
+		logger.info({ profilePath }, "Loaded applicant profile");
+	} else {
+		applicantProfile = await extractApplicantProfile(resumeText);
+		await saveApplicantProfile(profilePath, applicantProfile);
+		logger.info(
+			{ profilePath },
+			"Extracted applicant profile from resume. Review and correct this file; it is reused on later runs.",
+		);
+	}
+
 	return {
 		resumeText,
+		documents,
 		extraPrompts,
+		profilePath,
+		applicantProfile,
 	};
 };
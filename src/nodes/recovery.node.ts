@@ -0,0 +1,215 @@
+import type { Page } from "@browserbasehq/stagehand";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import {
+	Command,
+	END,
+	type GraphNode,
+	interrupt,
+	isGraphBubbleUp,
+} from "@langchain/langgraph";
+import { logger } from "../index.js";
+import type { AgentStateType, ErrorKind } from "../states/state.js";
+import { recordHistoryEvent } from "../stores/history.store.js";
+import { captureStep, recordRunEvent } from "../stores/run-artifacts.store.js";
+import { appConfig } from "../utils/config.js";
+import {
+	classifyError,
+	looksLikeBotCheck,
+	withRetry,
+} from "../utils/errors.js";
+import {
+	getRunningStagehand,
+	getStagehandInstance,
+} from "../utils/instances.js";
+import { describeJobPosting } from "../utils/job-posting.js";
+import { getThreadId } from "../utils/thread.js";
+import type { NodeName } from "./node.types.js";
+
+type RecoveryDecision = string | { type?: string; action?: string };
+
+/** Failures a reload cannot fix. */
+const humanKinds: ErrorKind[] = ["auth_failure", "bot_detection"];
+
+// Reloading after a submit click could send the application twice.
+const noReloadNodes: string[] = ["SubmitNode", "VerifySubmissionNode"];
+
+/**
+ * Hands errors thrown by the node to RecoveryNode instead of ending the run.
+ * Interrupts and user aborts pass through. A normal return clears the
+ * node's failure count.
+ */
+export function withRecovery(
+	name: NodeName,
+	node: GraphNode<AgentStateType, RunnableConfig, NodeName>,
+): GraphNode<AgentStateType, RunnableConfig, NodeName> {
+	return async (state, config) => {
+		try {
+			const result = await node(state, config);
+			if (state.recovery?.node !== name) {
+				return result;
+			}
+			if (result instanceof Command) {
+				return new Command({
+					update: { ...(result.update as object), recovery: undefined },
+					goto: result.goto,
+				});
+			}
+			return { ...result, recovery: undefined };
+		} catch (error) {
+			if (isGraphBubbleUp(error)) {
+				throw error;
+			}
+			const { kind, message } = classifyError(error);
+			if (kind === "user_abort") {
+				throw error;
+			}
+
+			const pageUrl = getRunningStagehand()?.context.pages()[0]?.url();
+			logger.warn(
+				{ node: name, kind, error: message },
+				"Node failed, handing over to RecoveryNode.",
+			);
+			await recordRunEvent(getThreadId(config), {
+				type: "error",
+				node: name,
+				pageUrl,
+				data: { kind, message },
+			});
+			return new Command({
+				update: {
+					recovery: {
+						node: name,
+						kind,
+						message,
+						pageUrl,
+						attempts:
+							state.recovery?.node === name ? state.recovery.attempts + 1 : 1,
+					},
+				},
+				goto: "RecoveryNode",
+			});
+		}
+	};
+}
+
+/**
+ * Reloads the page (or reopens the posting when the tab is gone or blank)
+ * and reads it again. Returns why the page is still unusable, if it is.
+ */
+async function reloadAndObserve(
+	threadId: string | undefined,
+	state: AgentStateType,
+	failedNode: string,
+): Promise<{ kind: ErrorKind; message: string } | undefined> {
+	const stagehand = await getStagehandInstance();
+	const page: Page =
+		stagehand.context.pages()[0] ?? (await stagehand.context.newPage());
+
+	try {
+		await captureStep(
+			{
+				threadId,
+				page,
+				node: "RecoveryNode",
+				step: `reload after ${failedNode} failed`,
+			},
+			() =>
+				withRetry("reload page", () =>
+					page.url().startsWith("http")
+						? page.reload()
+						: page.goto(state.jobUrl),
+				),
+		);
+		const text = await page.evaluate(
+			() => `${document.title}\n${document.body?.innerText ?? ""}`,
+		);
+		if (looksLikeBotCheck(text.slice(0, 5000))) {
+			return {
+				kind: "bot_detection",
+				message: `${page.url()} asks to prove you are human.`,
+			};
+		}
+	} catch (error) {
+		return classifyError(error);
+	}
+
+	return undefined;
+}
+
+export const recoveryNode: GraphNode<
+	AgentStateType,
+	RunnableConfig,
+	NodeName
+> = async (state, config) => {
+	const threadId = getThreadId(config);
+	const recovery = state.recovery;
+	if (!recovery) {
+		throw new Error("RecoveryNode ran without a recorded node failure.");
+	}
+
+	const failedNode = recovery.node as NodeName;
+	const { kind, message } = recovery;
+	const { maxRecoveries, retryDelaySeconds } = appConfig.recovery;
+	// The reload runs in a pass of its own: an interrupt replays the node on
+	// resume, which must not reload the page the user just fixed.
+	if (
+		!recovery.escalated &&
+		!humanKinds.includes(kind) &&
+		!noReloadNodes.includes(failedNode) &&
+		recovery.attempts <= maxRecoveries
+	) {
+		const delaySeconds = retryDelaySeconds * 2 ** (recovery.attempts - 1);
+		logger.info(
+			{ node: failedNode, kind, attempt: recovery.attempts, delaySeconds },
+			"Reloading the page and retrying the failed node.",
+		);
+		await new Promise((resolve) => setTimeout(resolve, delaySeconds * 1000));
+
+		const problem = await reloadAndObserve(threadId, state, failedNode);
+		if (!problem) {
+			return new Command({ goto: failedNode });
+		}
+		return new Command({
+			update: {
+				recovery: {
+					...recovery,
+					...problem,
+					pageUrl: getRunningStagehand()?.context.pages()[0]?.url(),
+					escalated: true,
+				},
+			},
+			goto: "RecoveryNode",
+		});
+	}
+
+	logger.info(
+		{ node: failedNode, kind, message },
+		"Unable to recover automatically. Waiting for user decision via interrupt.",
+	);
+	const decision: RecoveryDecision = interrupt({
+		type: "error_recovery",
+		message:
+			"The run hit an error it cannot recover from on its own. Fix the page in the browser if needed, then retry the step, or skip the application.",
+		reason: `${failedNode} failed (${kind}): ${message}`,
+		errorKind: kind,
+		node: failedNode,
+		pageUrl: recovery.pageUrl,
+		job: describeJobPosting(state.jobPosting),
+		jobUrl: state.jobUrl,
+	});
+
+	const action =
+		typeof decision === "string"
+			? decision.trim().toLowerCase()
+			: decision.action;
+	if (action === "skip") {
+		const skipReason = `Skipped after ${failedNode} failed: ${message}`;
+		await recordHistoryEvent(threadId, state, "skipped", {
+			detail: skipReason,
+		});
+		return new Command({ update: { skipReason }, goto: END });
+	}
+
+	logger.info({ node: failedNode }, "Retrying the failed node.");
+	return new Command({ update: { recovery: undefined }, goto: failedNode });
+};
@@ -0,0 +1,74 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+import type { GraphNode } from "@langchain/langgraph";
+import { logger } from "../index.js";
+import type { AgentStateType } from "../states/state.js";
+import {
+	buildFieldSnapshot,
+	captureFormPage,
+	mergeFormPage,
+	saveFieldSnapshot,
+} from "../utils/field-snapshot.js";
+import { getStagehandInstance } from "../utils/instances.js";
+import { getThreadId } from "../utils/thread.js";
+import type { NodeName } from "./node.types.js";
+
+/**
+ * Captures the form fields in their own node, so the snapshot is
+ * checkpointed before SubmitNode interrupts and is not re-extracted on resume.
+ * The page the form ends on joins the pages FillFormNode recorded earlier.
+ */
+export const snapshotFieldsNode: GraphNode<
+	AgentStateType,
+	RunnableConfig,
+	NodeName
+> = async (state, config) => {
+	const stagehand = await getStagehandInstance();
+	const formPages = state.formPages ?? [];
+
+	try {
+		const currentPage = await captureFormPage(stagehand);
+		const pages = mergeFormPage(formPages, currentPage);
+		const fieldSnapshot = buildFieldSnapshot({
+			pages,
+			previous: state.fieldSnapshot,
+			pageUrl: currentPage.pageUrl,
+		});
+		const fieldSnapshotPath = await saveFieldSnapshot(
+			getThreadId(config),
+			fieldSnapshot,
+		);
+		logger.info(
+			{
+				fieldSnapshotPath,
+				fieldCount: fieldSnapshot.fields.length,
+				pageCount: pages.length,
+				round: fieldSnapshot.round,
+			},
+			"Captured form field snapshot for review",
+		);
+
+		return {
+			fieldSnapshot,
+			fieldSnapshotPath,
+		};
+	} catch (error) {
+		logger.warn(
+			{ error },
+			"Unable to capture the current form page, reviewing the recorded pages only.",
+		);
+		const reason = error instanceof Error ? error.message : String(error);
+		// A snapshot without the failed page, so the review does not show the
+		// previous round's fields as the current ones.
+		return {
+			fieldSnapshot: buildFieldSnapshot({
+				pages: formPages,
+				previous: state.fieldSnapshot,
+				pageUrl: stagehand.context.pages()[0]?.url() ?? state.jobUrl,
+				notes: [
+					`The current form page could not be read (${reason}); check it in the browser before approving.`,
+				],
+			}),
+			fieldSnapshotPath: undefined,
+		};
+	}
+};
@@ -1,8 +1,17 @@
 import type { RunnableConfig } from "@langchain/core/runnables";
 import { Command, END, type GraphNode, interrupt } from "@langchain/langgraph";
+import { getAtsAdapter } from "../ats/registry.js";
 import { logger } from "../index.js";
 import type { AgentStateType } from "../states/state.js";
+import { recordHistoryEvent } from "../stores/history.store.js";
+import { captureStep } from "../stores/run-artifacts.store.js";
+import { runWithActionCache } from "../utils/action-cache.js";
+import { classifyError, createError } from "../utils/errors.js";
 import { getStagehandInstance } from "../utils/instances.js";
+import { describeJobPosting } from "../utils/job-posting.js";
+import { toStagehandModel } from "../utils/model-provider.js";
+import { getModelRoute, runWithModelFallback } from "../utils/model-routing.js";
+import { getThreadId } from "../utils/thread.js";
 import type { NodeName } from "./node.types.js";
 
 type SubmissionDecision =
@@ -47,24 +56,56 @@ function parseDecision(decision: SubmissionDecision): {
 	};
 }
 
+/** Compares origin and path, since forms may change the query or hash. */
+function isSamePage(currentUrl: string, formUrl: string | undefined): boolean {
+	if (!formUrl) {
+		return currentUrl.startsWith("http");
+	}
+	try {
+		const current = new URL(currentUrl);
+		const form = new URL(formUrl);
+		return current.origin === form.origin && current.pathname === form.pathname;
+	} catch {
+		return false;
+	}
+}
+
 export const submitNode: GraphNode<
 	AgentStateType,
 	RunnableConfig,
 	NodeName
-> = async (state) => {
+> = async (state, config) => {
+	const threadId = getThreadId(config);
 	await new Promise((resolve) => setTimeout(resolve, 1000));
 	logger.info(
 		"Ready to submit application. Waiting for user decision via interrupt.",
 	);
 
-	const decision = interrupt<SubmissionDecision>({
+	const decision: SubmissionDecision = interrupt({
 		type: "submission_approval",
 		message:
 			"Review the application and decide: approve submission, or provide modification suggestions.",
 		reviewSuggestions: state.reviewSuggestions ?? [],
+		job: describeJobPosting(state.jobPosting),
+		jobUrl: state.jobUrl,
+		fieldSnapshot: state.fieldSnapshot,
 	});
 
+	if (typeof decision !== "string" && decision.action === "skip") {
+		const skipReason = "Submission declined at review.";
+		logger.info("Submission declined, skipping the application.");
+		await recordHistoryEvent(threadId, state, "skipped", {
+			detail: skipReason,
+		});
+		return new Command({ update: { skipReason }, goto: END });
+	}
+
 	const { approved, reviewSuggestions } = parseDecision(decision);
+	await recordHistoryEvent(threadId, state, "review_decision", {
+		detail: approved
+			? "Approved for submission."
+			: `Requested changes: ${reviewSuggestions.join("; ") || "none given"}`,
+	});
 
 	if (!approved) {
 		if (reviewSuggestions.length === 0) {
@@ -76,6 +117,7 @@ export const submitNode: GraphNode<
 					reviewSuggestions: [
 						"Please review and improve the form before submission.",
 					],
+					reviewRounds: (state.reviewRounds ?? 0) + 1,
 				},
 				goto: "FillFormNode",
 			});
@@ -89,18 +131,95 @@ export const submitNode: GraphNode<
 		return new Command({
 			update: {
 				reviewSuggestions,
+				reviewRounds: (state.reviewRounds ?? 0) + 1,
 			},
 			goto: "FillFormNode",
 		});
 	}
 
 	const stagehand = await getStagehandInstance();
-	const submitResponse = await stagehand.act(
-		"The user approved submission. Click the final submit button now and confirm submission status.",
+	const page = stagehand.context.pages()[0];
+	if (!page) {
+		logger.error("No page found in browser context.");
+		throw createError("action_failure", "No page found in browser context.");
+	}
+
+	// A run resumed in a new browser (another process, or after the API ran
+	// another thread) starts on a blank page, with nothing filled in and
+	// possibly logged out, so it goes through the account step again.
+	if (!isSamePage(page.url(), state.formUrl)) {
+		logger.warn(
+			{ currentPageUrl: page.url(), formUrl: state.formUrl },
+			"The browser is no longer on the filled form, logging in and filling it again before submitting.",
+		);
+		return new Command({
+			update: { reviewSuggestions: [] },
+			goto: "HandleAccountNode",
+		});
+	}
+
+	const atsAdapter = getAtsAdapter(state.atsAdapter);
+	const submitResponse = await captureStep(
+		{ threadId, page, node: "SubmitNode", step: "submit" },
+		async (): Promise<{ success: boolean; message: string }> => {
+			try {
+				if (await atsAdapter?.submit?.({ page, state })) {
+					return {
+						success: true,
+						message: `Clicked the ${atsAdapter?.vendor} submit button.`,
+					};
+				}
+			} catch (error) {
+				logger.warn(
+					{ vendor: atsAdapter?.vendor, error },
+					"ATS adapter could not submit, falling back to the agent.",
+				);
+			}
+
+			const instruction =
+				"The user approved submission. Click the final submit button now and confirm submission status.";
+			try {
+				return await runWithActionCache(
+					{
+						stagehand,
+						page,
+						step: "submit",
+						ats: state.atsAdapter,
+						enabled: state.actionCache !== false,
+						rerunAfterReplay: false,
+					},
+					// Clicked once only: a click that failed or threw may still have submitted.
+					() =>
+						runWithModelFallback(
+							getModelRoute("submit"),
+							(settings) =>
+								stagehand.act(instruction, {
+									model: toStagehandModel(settings),
+								}),
+							undefined,
+							{ retry: false },
+						),
+				);
+			} catch (error) {
+				const { kind, message } = classifyError(error);
+				logger.warn(
+					{ kind, error: message },
+					"Submit click threw, verifying the page instead of clicking again.",
+				);
+				return { success: false, message };
+			}
+		},
 	);
 	logger.info({ submitResponse }, "Submission action completed in SubmitNode");
 
 	return new Command({
-		goto: END,
+		update: {
+			submissionResult: {
+				submitted: submitResponse.success,
+				message: submitResponse.message,
+			},
+			submitAttempts: (state.submitAttempts ?? 0) + 1,
+		},
+		goto: "VerifySubmissionNode",
 	});
 };
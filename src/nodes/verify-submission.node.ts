@@ -0,0 +1,132 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { Command, END, type GraphNode } from "@langchain/langgraph";
+import { logger } from "../index.js";
+import {
+	type AgentStateType,
+	submissionVerificationSchema,
+} from "../states/state.js";
+import { recordHistoryEvent } from "../stores/history.store.js";
+import { getStagehandInstance } from "../utils/instances.js";
+import { toStagehandModel } from "../utils/model-provider.js";
+import { getModelRoute, runWithModelFallback } from "../utils/model-routing.js";
+import { getThreadId } from "../utils/thread.js";
+import type { NodeName } from "./node.types.js";
+
+const MAX_SUBMIT_ATTEMPTS = 3;
+
+export const verifySubmissionNode: GraphNode<
+	AgentStateType,
+	RunnableConfig,
+	NodeName
+> = async (state, config) => {
+	const threadId = getThreadId(config);
+	const stagehand = await getStagehandInstance();
+	const clickResult = state.submissionResult;
+
+	// Give the site time to navigate to its confirmation page or render errors.
+	await new Promise((resolve) => setTimeout(resolve, 3000));
+
+	const verification = await runWithModelFallback(
+		getModelRoute("detection"),
+		(settings) =>
+			stagehand.extract(
+				"The applicant just clicked the final submit button of a job application. Decide from this page whether the application was actually submitted. Extract the confirmation message and any confirmation/reference number, or every validation error shown if the form is still displayed with errors.",
+				submissionVerificationSchema,
+				{ model: toStagehandModel(settings) },
+			),
+	);
+	logger.info({ verification }, "Submission verification result");
+
+	if (verification.status === "confirmed") {
+		const submissionResult = {
+			submitted: true,
+			confirmed: true,
+			message:
+				verification.confirmationMessage ??
+				clickResult?.message ??
+				"Application submitted.",
+			confirmationNumber: verification.confirmationNumber,
+		};
+		await recordHistoryEvent(threadId, state, "submitted", {
+			submissionResult,
+			detail: verification.confirmationNumber
+				? `Confirmation number: ${verification.confirmationNumber}`
+				: undefined,
+		});
+
+		return new Command({
+			update: { submissionResult },
+			goto: END,
+		});
+	}
+
+	if (
+		verification.status === "validation_errors" &&
+		verification.validationErrors.length > 0
+	) {
+		const submissionResult = {
+			submitted: false,
+			confirmed: false,
+			message: `The site rejected the submission with ${verification.validationErrors.length} validation error(s).`,
+			validationErrors: verification.validationErrors,
+		};
+		await recordHistoryEvent(threadId, state, "validation_errors", {
+			submissionResult,
+			detail: verification.validationErrors.join("; "),
+		});
+
+		if ((state.submitAttempts ?? 0) >= MAX_SUBMIT_ATTEMPTS) {
+			logger.error(
+				{ validationErrors: verification.validationErrors },
+				"Submission still has validation errors after repeated attempts, giving up.",
+			);
+			await recordHistoryEvent(threadId, state, "failed", {
+				submissionResult,
+				detail: `Gave up after ${MAX_SUBMIT_ATTEMPTS} submit attempts.`,
+			});
+			return new Command({
+				update: { submissionResult },
+				goto: END,
+			});
+		}
+
+		logger.warn(
+			{ validationErrors: verification.validationErrors },
+			"Submission has validation errors, routing back to FillFormNode",
+		);
+		return new Command({
+			update: {
+				submissionResult,
+				reviewSuggestions: verification.validationErrors.map(
+					(error) => `Fix this validation error shown by the site: ${error}`,
+				),
+			},
+			goto: "FillFormNode",
+		});
+	}
+
+	// Nothing conclusive on the page: keep the click result but flag it as unconfirmed.
+	const submissionResult = {
+		submitted: clickResult?.submitted ?? false,
+		confirmed: false,
+		message:
+			verification.confirmationMessage ??
+			clickResult?.message ??
+			"Could not confirm the submission.",
+	};
+	logger.warn(
+		{ submissionResult },
+		"Could not confirm the submission from the page. Check the browser and your email.",
+	);
+	await recordHistoryEvent(
+		threadId,
+		state,
+		submissionResult.submitted ? "submitted" : "failed",
+		{ submissionResult, detail: "Submission not confirmed by the page." },
+	);
+
+	return new Command({
+		update: { submissionResult },
+		goto: END,
+	});
+};
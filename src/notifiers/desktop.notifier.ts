@@ -0,0 +1,40 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import type { Notifier } from "./notifier.types.js";
+
+const execFileAsync = promisify(execFile);
+
+function appleScriptString(text: string): string {
+	return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Shows a system notification with `osascript` on macOS and `notify-send`
+ * on Linux, so nothing extra needs installing there.
+ */
+export function createDesktopNotifier(): Notifier {
+	return {
+		type: "desktop",
+		send: async (_, { title, body }) => {
+			if (process.platform === "darwin") {
+				await execFileAsync(
+					"osascript",
+					[
+						"-e",
+						`display notification ${appleScriptString(body)} with title ${appleScriptString(title)}`,
+					],
+					{ timeout: 10_000 },
+				);
+				return;
+			}
+			if (process.platform === "linux") {
+				const args = ["--app-name=OpenDoor", title, body];
+				await execFileAsync("notify-send", args, { timeout: 10_000 });
+				return;
+			}
+			throw new Error(
+				`Desktop notifications are not supported on ${process.platform}.`,
+			);
+		},
+	};
+}
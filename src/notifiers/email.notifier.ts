@@ -0,0 +1,32 @@
+import { createTransport } from "nodemailer";
+import type { NotifierConfig } from "../utils/config.js";
+import { envVars } from "../utils/env.js";
+import type { Notifier } from "./notifier.types.js";
+
+/** Sends a plain-text email through the configured SMTP server. */
+export function createEmailNotifier(
+	config: Extract<NotifierConfig, { type: "email" }>,
+): Notifier {
+	const transport = createTransport({
+		host: config.host,
+		port: config.port,
+		secure: config.secure,
+		auth: config.user
+			? { user: config.user, pass: envVars.SMTP_PASSWORD }
+			: undefined,
+		tls: { rejectUnauthorized: config.rejectUnauthorized },
+		connectionTimeout: 10_000,
+	});
+
+	return {
+		type: "email",
+		send: async (_, { title, body }) => {
+			await transport.sendMail({
+				from: config.from,
+				to: config.to,
+				subject: title,
+				text: body,
+			});
+		},
+	};
+}
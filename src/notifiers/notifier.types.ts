@@ -0,0 +1,25 @@
+import type { NotificationKind } from "../utils/config.js";
+import type { RunStatus } from "../utils/run-thread.js";
+
+/** What a notification says about a run, before a notifier formats it. */
+export type RunNotification = {
+	kind: NotificationKind;
+	threadId: string;
+	status?: RunStatus;
+	job?: string;
+	jobUrl?: string;
+	interruptType?: string;
+	reason?: string;
+	message?: string;
+	detail?: string;
+	/** Where to answer an interrupt: the dashboard, or the CLI command. */
+	respond?: string;
+};
+
+export type Notifier = {
+	type: string;
+	send: (
+		notification: RunNotification,
+		text: { title: string; body: string },
+	) => Promise<void>;
+};
@@ -0,0 +1,119 @@
+import { logger } from "../index.js";
+import { appConfig, type NotifierConfig } from "../utils/config.js";
+import { createDesktopNotifier } from "./desktop.notifier.js";
+import { createEmailNotifier } from "./email.notifier.js";
+import type { Notifier, RunNotification } from "./notifier.types.js";
+import { createWebhookNotifier } from "./webhook.notifier.js";
+
+let notifiers: Notifier[] | undefined;
+let dashboardUrl = appConfig.notifications.dashboardUrl;
+
+function createNotifier(config: NotifierConfig): Notifier {
+	switch (config.type) {
+		case "desktop":
+			return createDesktopNotifier();
+		case "webhook":
+			return createWebhookNotifier(config);
+		case "email":
+			return createEmailNotifier(config);
+	}
+}
+
+function getNotifiers(): Notifier[] {
+	notifiers ??= appConfig.notifications.notifiers.map(createNotifier);
+	return notifiers;
+}
+
+/**
+ * Points interrupt notifications at a running dashboard, unless the config
+ * names one already.
+ */
+export function setDashboardUrl(url: string): void {
+	dashboardUrl = appConfig.notifications.dashboardUrl ?? url;
+}
+
+function getRespondHint(threadId: string): string {
+	return dashboardUrl
+		? `${dashboardUrl.replace(/\/$/, "")}/#run-${threadId}`
+		: `pnpm start --resume-thread ${threadId}`;
+}
+
+export function formatNotification(notification: RunNotification): {
+	title: string;
+	body: string;
+} {
+	const job = notification.job ?? notification.jobUrl ?? notification.threadId;
+	const title =
+		notification.kind === "interrupt"
+			? `Input needed (${notification.interruptType ?? "interrupt"}): ${job}`
+			: notification.kind === "failed"
+				? `Run failed: ${job}`
+				: `Run ${notification.status ?? "finished"}: ${job}`;
+
+	const body = [
+		notification.job && `Job: ${notification.job}`,
+		notification.jobUrl && `URL: ${notification.jobUrl}`,
+		notification.status && `Status: ${notification.status}`,
+		notification.interruptType && `Waiting on: ${notification.interruptType}`,
+		notification.reason && `Reason: ${notification.reason}`,
+		notification.message,
+		notification.detail,
+		`Thread: ${notification.threadId}`,
+		notification.respond && `Respond: ${notification.respond}`,
+	]
+		.filter(Boolean)
+		.join("\n");
+
+	return { title, body };
+}
+
+export type NotifierResult = { notifier: string; error?: string };
+
+/**
+ * Sends the notification through every configured notifier, if its kind is
+ * enabled (`force` sends it regardless). Notifier failures are logged and
+ * returned, never thrown, so they cannot affect the run.
+ */
+export async function notifyRun(
+	notification: Omit<RunNotification, "respond">,
+	options: { force?: boolean } = {},
+): Promise<NotifierResult[]> {
+	const enabled = getNotifiers();
+	if (
+		enabled.length === 0 ||
+		(!options.force && !appConfig.notifications.on.includes(notification.kind))
+	) {
+		return [];
+	}
+
+	const withRespond: RunNotification = {
+		...notification,
+		respond:
+			notification.kind === "interrupt"
+				? getRespondHint(notification.threadId)
+				: undefined,
+	};
+	const text = formatNotification(withRespond);
+	const results = await Promise.allSettled(
+		enabled.map((notifier) => notifier.send(withRespond, text)),
+	);
+	return results.map((result, index) => {
+		const notifier = enabled[index]?.type ?? "unknown";
+		if (result.status === "rejected") {
+			logger.warn(
+				{ notifier, error: result.reason },
+				"Failed to send notification",
+			);
+			return {
+				notifier,
+				error:
+					result.reason instanceof Error
+						? result.reason.message
+						: String(result.reason),
+			};
+		}
+
+		logger.debug({ notifier, kind: notification.kind }, "Notification sent");
+		return { notifier };
+	});
+}
@@ -0,0 +1,24 @@
+import type { NotifierConfig } from "../utils/config.js";
+import type { Notifier } from "./notifier.types.js";
+
+/** POSTs the notification as JSON, with the formatted title and body. */
+export function createWebhookNotifier(
+	config: Extract<NotifierConfig, { type: "webhook" }>,
+): Notifier {
+	return {
+		type: "webhook",
+		send: async (notification, { title, body }) => {
+			const response = await fetch(config.url, {
+				method: "POST",
+				headers: { "Content-Type": "application/json", ...config.headers },
+				body: JSON.stringify({ ...notification, title, body }),
+				signal: AbortSignal.timeout(10_000),
+			});
+			if (!response.ok) {
+				throw new Error(
+					`Webhook ${config.url} answered ${response.status} ${response.statusText}`,
+				);
+			}
+		},
+	};
+}
@@ -0,0 +1,488 @@
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import {
+	createServer,
+	type IncomingMessage,
+	type Server,
+	type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import z from "zod";
+import { parseAtsOption } from "../ats/registry.js";
+import { logger } from "../index.js";
+import { budgetSchema } from "../states/state.js";
+import {
+	findLatestScreenshot,
+	maskSecrets,
+	type RunEvent,
+	runEventEmitter,
+} from "../stores/run-artifacts.store.js";
+import { getDocumentMimeType } from "../utils/documents.js";
+import {
+	buildInterruptResumeValue,
+	type InterruptPayload,
+} from "../utils/interrupts.js";
+import { type LogEntry, logEmitter } from "../utils/log-stream.js";
+import { renderDashboardPage } from "./dashboard.js";
+import type { ManagedRun, RunManager } from "./run-manager.js";
+
+const maxBodyBytes = 1024 * 1024;
+export const loopbackHosts = new Set(["127.0.0.1", "::1", "localhost"]);
+const wildcardHosts = new Set(["0.0.0.0", "::"]);
+const keepAliveIntervalMs = 15_000;
+
+const startRunRequestSchema = z.object({
+	jobUrl: z.url(),
+	resumePath: z.string(),
+	documents: z
+		.array(z.object({ label: z.string(), path: z.string() }))
+		.default([]),
+	extraPromptsPath: z.string().optional(),
+	profilePath: z.string().optional(),
+	refreshProfile: z.boolean().optional(),
+	force: z.boolean().optional(),
+	ats: z.string().optional(),
+	actionCache: z.boolean().optional(),
+	coverLetterEnabled: z.boolean().optional(),
+	budget: budgetSchema.optional(),
+});
+
+const resumeRequestSchema = z.object({
+	resume: z
+		.union([z.string(), z.record(z.string(), z.unknown())])
+		.describe("Resume value, as the terminal prompt would have built it."),
+});
+
+const replyRequestSchema = z.object({
+	text: z.string().optional(),
+	answers: z.record(z.string(), z.string()).optional(),
+	suggestions: z.array(z.string()).optional(),
+	coverLetter: z.string().optional(),
+});
+
+type RouteContext = {
+	request: IncomingMessage;
+	response: ServerResponse;
+	params: string[];
+	url: URL;
+};
+
+type Route = {
+	method: "GET" | "POST";
+	pattern: RegExp;
+	handle: (context: RouteContext) => Promise<void>;
+};
+
+function sendJson(
+	response: ServerResponse,
+	status: number,
+	body: unknown,
+): void {
+	response.writeHead(status, { "Content-Type": "application/json" });
+	response.end(JSON.stringify(body));
+}
+
+/** An error in the request itself, answered with its status code. */
+function createRequestError(status: number, message: string): Error {
+	return Object.assign(new Error(message), { status });
+}
+
+/**
+ * The status code for an error thrown by a route: 400 for bodies that fail
+ * validation, the status of a request error, and 500 for anything else.
+ */
+function getErrorStatus(error: unknown): number {
+	if (error instanceof z.ZodError) {
+		return 400;
+	}
+	const { status } = (error && typeof error === "object" ? error : {}) as {
+		status?: unknown;
+	};
+	return typeof status === "number" ? status : 500;
+}
+
+async function readJsonBody(request: IncomingMessage): Promise<unknown> {
+	const chunks: Buffer[] = [];
+	let size = 0;
+	for await (const chunk of request) {
+		size += (chunk as Buffer).length;
+		if (size > maxBodyBytes) {
+			throw createRequestError(413, "Request body is too large.");
+		}
+		chunks.push(chunk as Buffer);
+	}
+
+	const text = Buffer.concat(chunks).toString("utf-8");
+	try {
+		return text ? JSON.parse(text) : {};
+	} catch {
+		throw createRequestError(400, "Request body is not valid JSON.");
+	}
+}
+
+function formatHost(host: string, port: number): string {
+	return `${host.includes(":") ? `[${host}]` : host}:${port}`;
+}
+
+/**
+ * Rejects requests a web page in the user's browser could forge: POST
+ * bodies other than JSON (plain form posts), a `Host` other than the
+ * address the server listens on (DNS rebinding), and cross-origin
+ * `Origin` headers. Returns why the request was rejected, if it was.
+ */
+function checkRequestSource(
+	request: IncomingMessage,
+	boundHost: string,
+	port: number,
+): string | undefined {
+	const host = request.headers.host?.toLowerCase();
+	const allowedHosts = loopbackHosts.has(boundHost)
+		? [...loopbackHosts].map((alias) => formatHost(alias, port))
+		: [formatHost(boundHost.toLowerCase(), port)];
+	// Bound to every interface, the address clients use is not known.
+	if (!wildcardHosts.has(boundHost) && !allowedHosts.includes(host ?? "")) {
+		return `Host ${host ?? "(none)"} is not allowed.`;
+	}
+
+	const origin = request.headers.origin;
+	if (origin) {
+		let originHost: string | undefined;
+		try {
+			originHost = new URL(origin).host;
+		} catch {
+			originHost = undefined;
+		}
+		if (originHost !== host) {
+			return `Origin ${origin} is not allowed.`;
+		}
+	}
+
+	const contentType = request.headers["content-type"]?.split(";")[0]?.trim();
+	if (request.method === "POST" && contentType !== "application/json") {
+		return "POST requests must have a Content-Type of application/json.";
+	}
+
+	return undefined;
+}
+
+/**
+ * Checks the files a run needs before it is queued, so a bad path fails
+ * the request instead of the run.
+ */
+function validateStartRunRequest(
+	request: z.infer<typeof startRunRequestSchema>,
+): string | undefined {
+	const paths = [
+		request.resumePath,
+		request.extraPromptsPath,
+		...request.documents.map((document) => document.path),
+	];
+	const missing = paths.find((path) => path && !existsSync(path));
+	if (missing) {
+		return `File not found: ${missing}`;
+	}
+
+	try {
+		getDocumentMimeType(request.resumePath);
+		for (const document of request.documents) {
+			getDocumentMimeType(document.path);
+		}
+		if (request.ats) {
+			parseAtsOption(request.ats);
+		}
+	} catch (error) {
+		return error instanceof Error ? error.message : String(error);
+	}
+
+	return undefined;
+}
+
+/**
+ * Queues the thread with the resume value built from its pending interrupt,
+ * or answers 404/409 when there is nothing to resume.
+ */
+async function resumePendingRun(
+	manager: RunManager,
+	threadId: string,
+	response: ServerResponse,
+	buildResumeValue: (payload: InterruptPayload) => unknown,
+): Promise<void> {
+	const run = await manager.getRun(threadId);
+	if (!run) {
+		sendJson(response, 404, { error: `No run ${threadId}.` });
+		return;
+	}
+	if (!run.pendingInterrupt || manager.isActive(threadId)) {
+		sendJson(response, 409, {
+			error: `Run ${threadId} is not waiting on an interrupt.`,
+		});
+		return;
+	}
+
+	manager.resumeRun(
+		threadId,
+		run.jobUrl,
+		buildResumeValue(run.pendingInterrupt),
+	);
+	sendJson(response, 202, { threadId, status: "queued" });
+}
+
+/** Drops the LangGraph message log, which is large and internal. */
+function toRunResponse(run: ManagedRun) {
+	const { values, pendingInterrupt, ...rest } = run;
+	const { messages: _messages, ...state } = values ?? {};
+	return {
+		...rest,
+		pendingInterrupt: pendingInterrupt?.value,
+		values: state,
+	};
+}
+
+/**
+ * Streams run events, status changes and log lines as Server-Sent Events,
+ * optionally only those of one thread.
+ */
+function streamEvents(
+	{ request, response }: RouteContext,
+	manager: RunManager,
+	threadId?: string,
+): void {
+	response.writeHead(200, {
+		"Content-Type": "text/event-stream",
+		"Cache-Control": "no-cache",
+		Connection: "keep-alive",
+	});
+	response.write(": connected\n\n");
+
+	const send = (event: string, data: unknown) => {
+		response.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+	};
+
+	const onRunEvent = (eventThreadId: string, event: RunEvent) => {
+		if (!threadId || eventThreadId === threadId) {
+			send(event.type === "node" ? "node" : "run", {
+				threadId: eventThreadId,
+				...event,
+			});
+		}
+	};
+	const onLog = (entry: LogEntry) => {
+		if (!threadId || entry.threadId === threadId) {
+			send("log", maskSecrets(entry));
+		}
+	};
+
+	runEventEmitter.on("event", onRunEvent);
+	logEmitter.on("log", onLog);
+	const stopStatus = manager.onStatus((statusThreadId, status) => {
+		if (!threadId || statusThreadId === threadId) {
+			send("status", { threadId: statusThreadId, status });
+		}
+	});
+	const keepAlive = setInterval(
+		() => response.write(": keep-alive\n\n"),
+		keepAliveIntervalMs,
+	);
+
+	request.on("close", () => {
+		clearInterval(keepAlive);
+		runEventEmitter.off("event", onRunEvent);
+		logEmitter.off("log", onLog);
+		stopStatus();
+	});
+}
+
+function createRoutes(manager: RunManager): Route[] {
+	return [
+		{
+			method: "GET",
+			pattern: /^\/$/,
+			handle: async ({ response }) => {
+				response.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+				response.end(renderDashboardPage());
+			},
+		},
+		{
+			method: "GET",
+			pattern: /^\/api\/runs$/,
+			handle: async ({ response }) => {
+				const runs = await manager.listRuns();
+				sendJson(response, 200, runs.map(toRunResponse));
+			},
+		},
+		{
+			method: "POST",
+			pattern: /^\/api\/runs$/,
+			handle: async ({ request, response }) => {
+				const parsed = startRunRequestSchema.safeParse(
+					await readJsonBody(request),
+				);
+				if (!parsed.success) {
+					sendJson(response, 400, { error: z.prettifyError(parsed.error) });
+					return;
+				}
+
+				const error = validateStartRunRequest(parsed.data);
+				if (error) {
+					sendJson(response, 400, { error });
+					return;
+				}
+
+				const threadId = manager.startRun(parsed.data);
+				sendJson(response, 202, { threadId, status: "queued" });
+			},
+		},
+		{
+			method: "GET",
+			pattern: /^\/api\/runs\/([\w-]+)$/,
+			handle: async ({ response, params: [threadId = ""] }) => {
+				const run = await manager.getRun(threadId);
+				if (!run) {
+					sendJson(response, 404, { error: `No run ${threadId}.` });
+					return;
+				}
+				sendJson(response, 200, toRunResponse(run));
+			},
+		},
+		{
+			method: "GET",
+			pattern: /^\/api\/runs\/([\w-]+)\/interrupt$/,
+			handle: async ({ response, params: [threadId = ""] }) => {
+				const run = await manager.getRun(threadId);
+				if (!run?.pendingInterrupt) {
+					sendJson(response, 404, {
+						error: `Run ${threadId} is not waiting on an interrupt.`,
+					});
+					return;
+				}
+				sendJson(response, 200, run.pendingInterrupt.value ?? {});
+			},
+		},
+		{
+			method: "POST",
+			pattern: /^\/api\/runs\/([\w-]+)\/resume$/,
+			handle: async ({ request, response, params: [threadId = ""] }) => {
+				const parsed = resumeRequestSchema.safeParse(
+					await readJsonBody(request),
+				);
+				if (!parsed.success) {
+					sendJson(response, 400, { error: z.prettifyError(parsed.error) });
+					return;
+				}
+
+				await resumePendingRun(
+					manager,
+					threadId,
+					response,
+					() => parsed.data.resume,
+				);
+			},
+		},
+		{
+			method: "POST",
+			pattern: /^\/api\/runs\/([\w-]+)\/reply$/,
+			handle: async ({ request, response, params: [threadId = ""] }) => {
+				const parsed = replyRequestSchema.safeParse(
+					await readJsonBody(request),
+				);
+				if (!parsed.success) {
+					sendJson(response, 400, { error: z.prettifyError(parsed.error) });
+					return;
+				}
+
+				await resumePendingRun(manager, threadId, response, (payload) =>
+					buildInterruptResumeValue(payload, parsed.data),
+				);
+			},
+		},
+		{
+			method: "GET",
+			pattern: /^\/api\/runs\/([\w-]+)\/screenshot$/,
+			handle: async ({ response, params: [threadId = ""] }) => {
+				const screenshot = await findLatestScreenshot(threadId);
+				if (!screenshot || !existsSync(screenshot)) {
+					sendJson(response, 404, { error: `No screenshot for ${threadId}.` });
+					return;
+				}
+
+				response.writeHead(200, {
+					"Content-Type": "image/jpeg",
+					"Cache-Control": "no-cache",
+				});
+				response.end(await readFile(screenshot));
+			},
+		},
+		{
+			method: "GET",
+			pattern: /^\/api\/events$/,
+			handle: async (context) => streamEvents(context, manager),
+		},
+		{
+			method: "GET",
+			pattern: /^\/api\/runs\/([\w-]+)\/events$/,
+			handle: async (context) =>
+				streamEvents(context, manager, context.params[0]),
+		},
+	];
+}
+
+/**
+ * HTTP API over the run manager: start runs, list them, read and answer
+ * their pending interrupts, and stream their progress. `/` serves the
+ * review dashboard on top of it. It has no
+ * authentication, so it should only listen on localhost; requests from
+ * other sites are refused.
+ */
+export function createApiServer(
+	manager: RunManager,
+	options: { host: string },
+): Server {
+	const routes = createRoutes(manager);
+
+	const server = createServer((request, response) => {
+		const url = new URL(request.url ?? "/", "http://localhost");
+		const rejection = checkRequestSource(
+			request,
+			options.host,
+			(server.address() as AddressInfo).port,
+		);
+		if (rejection) {
+			logger.warn(
+				{ path: url.pathname, reason: rejection },
+				"API request refused",
+			);
+			sendJson(response, 403, { error: rejection });
+			return;
+		}
+		const matches = routes
+			.map((route) => ({ route, match: route.pattern.exec(url.pathname) }))
+			.filter(({ match }) => match);
+		const matched = matches.find(
+			({ route }) => route.method === request.method,
+		);
+		if (!matched?.match) {
+			sendJson(response, matches.length > 0 ? 405 : 404, {
+				error: `${request.method} ${url.pathname} not found.`,
+			});
+			return;
+		}
+
+		matched.route
+			.handle({ request, response, params: matched.match.slice(1), url })
+			.catch((error: unknown) => {
+				const status = getErrorStatus(error);
+				const message = error instanceof Error ? error.message : String(error);
+				logger[status >= 500 ? "error" : "warn"](
+					{ error: message, status, path: url.pathname },
+					"API request failed",
+				);
+				if (!response.headersSent) {
+					sendJson(response, status, {
+						error:
+							error instanceof z.ZodError ? z.prettifyError(error) : message,
+					});
+				}
+			});
+	});
+	return server;
+}
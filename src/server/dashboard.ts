@@ -0,0 +1,276 @@
+/**
+ * Browser side of the review dashboard. It only talks to the JSON API, and
+ * replies to interrupts with the same words the terminal prompt takes, so
+ * the server builds the resume value exactly as the CLI does.
+ */
+const dashboardScript = `
+const reviewStatuses = new Set(["queued", "running", "awaiting_input", "blocked"]);
+const container = document.getElementById("runs");
+const connection = document.getElementById("connection");
+
+function escapeHtml(text) {
+	return String(text ?? "").replace(/[&<>"']/g, (character) => ({
+		"&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;",
+	})[character]);
+}
+
+function renderPosting(run) {
+	const posting = run.values.jobPosting;
+	if (!posting) {
+		return "";
+	}
+	const facts = [
+		["Company", posting.company],
+		["Title", posting.title],
+		["Location", posting.location],
+		["Type", posting.employmentType],
+		["Deadline", posting.deadline],
+		["ATS", posting.atsVendor],
+	].filter(([, value]) => value);
+	const requirements = (posting.requirements ?? []).length
+		? \`<details><summary>Requirements</summary><ul>\${posting.requirements.map((item) => \`<li>\${escapeHtml(item)}</li>\`).join("")}</ul></details>\`
+		: "";
+	return \`<dl>\${facts.map(([label, value]) => \`<dt>\${label}</dt><dd>\${escapeHtml(value)}</dd>\`).join("")}</dl>\${requirements}\`;
+}
+
+function renderFields(run, withSuggestions) {
+	const snapshot = run.pendingInterrupt?.fieldSnapshot ?? run.values.fieldSnapshot;
+	if (!snapshot) {
+		return "";
+	}
+	const rows = snapshot.fields.map((field, index) => {
+		const flags = [
+			field.required && !field.value.trim() ? '<span class="missing">MISSING</span>' : "",
+			field.changed ? \`<span class="changed" title="Was: \${escapeHtml(field.previousValue)}">CHANGED</span>\` : "",
+		].join(" ");
+		const suggestion = withSuggestions
+			? \`<td><input data-field="\${escapeHtml(field.label)}" name="field-\${index}" placeholder="Change to..."></td>\`
+			: "";
+		const section = [field.page ? \`Page \${field.page}\` : "", field.section ?? ""].filter(Boolean).join(" · ");
+		return \`<tr><td>\${escapeHtml(section)}</td><td>\${escapeHtml(field.label)}\${field.required ? " *" : ""}</td><td>\${escapeHtml(field.value)}</td><td>\${flags}</td>\${suggestion}</tr>\`;
+	});
+	const notes = (snapshot.notes ?? []).map((note) => \`<p class="muted">\${escapeHtml(note)}</p>\`).join("");
+	return \`<h3>Form fields (round \${snapshot.round})</h3>\${notes}
+<table><thead><tr><th>Section</th><th>Field</th><th>Value</th><th></th>\${withSuggestions ? "<th>Suggestion</th>" : ""}</tr></thead>
+<tbody>\${rows.join("")}</tbody></table>\`;
+}
+
+function renderInterruptForm(interrupt) {
+	const message = interrupt.message ? \`<p>\${escapeHtml(interrupt.message)}</p>\` : "";
+	const reason = interrupt.reason ? \`<p class="muted">\${escapeHtml(interrupt.reason)}</p>\` : "";
+	switch (interrupt.type) {
+		case "missing_application_information": {
+			const questions = interrupt.questions ?? [];
+			const inputs = questions.length
+				? questions.map((question) => \`<label>\${escapeHtml(question)}<input data-question="\${escapeHtml(question)}"></label>\`).join("")
+				: '<textarea name="text" rows="4" placeholder="Missing details"></textarea>';
+			return \`\${message}\${reason}\${inputs}<button data-action="answers">Send answers</button>\`;
+		}
+		case "account_verification":
+			return \`\${message}\${reason}<label>Verification code<input name="code" autocomplete="one-time-code"></label>
+<button data-action="code">Send code</button> <button data-action="link">I clicked the verification link</button>\`;
+		case "account_password":
+			return \`\${message}\${reason}<label>Password<input name="password" type="password" autocomplete="current-password"></label>
+<button data-action="password">Log in</button>\`;
+		case "fit_confirmation": {
+			const fit = interrupt.fitAssessment;
+			const details = fit
+				? \`<p>Fit score \${fit.score}/100</p><ul>\${fit.reasons.map((item) => \`<li>\${escapeHtml(item)}</li>\`).join("")}\${fit.failedConstraints.map((item) => \`<li class="missing">\${escapeHtml(item)}</li>\`).join("")}</ul>\`
+				: "";
+			return \`\${message}\${details}<button data-action="continue">Apply anyway</button> <button data-action="skip-fit">Skip this job</button>\`;
+		}
+		case "cover_letter_review":
+			return \`<textarea name="coverLetter" rows="14">\${escapeHtml(interrupt.coverLetter)}</textarea>
+<button data-action="approve">Approve draft</button> <button data-action="edit">Use my edits</button> <button data-action="skip">Continue without one</button>
+<label>Feedback for a new draft<textarea name="feedback" rows="3"></textarea></label><button data-action="revise">Redraft</button>\`;
+		case "error_recovery":
+			return \`\${message}\${reason}\${interrupt.pageUrl ? \`<p class="muted">Page: \${escapeHtml(interrupt.pageUrl)}</p>\` : ""}
+<button data-action="retry">Retry the step</button> <button data-action="skip">Skip this job</button>\`;
+		case "budget_exceeded":
+			return \`\${message}\${reason}<button data-action="stop">Stop the run</button> <button data-action="no-limit">Continue without this limit</button>
+<label>New limit<input name="limit" type="number" min="0" step="any"></label><button data-action="raise">Continue until the new limit</button>\`;
+		default: {
+			const previous = (interrupt.reviewSuggestions ?? []).length
+				? \`<p class="muted">Previous suggestions: \${interrupt.reviewSuggestions.map(escapeHtml).join("; ")}</p>\`
+				: "";
+			return \`\${message}\${previous}<label>Other suggestions (one per line)<textarea name="suggestions" rows="3"></textarea></label>
+<button data-action="approve">Approve and submit</button> <button data-action="suggest">Send suggestions</button>\`;
+		}
+	}
+}
+
+function renderRun(run) {
+	const interrupt = run.pendingInterrupt;
+	const isReview = interrupt?.type === "submission_approval" || (interrupt && !interrupt.type);
+	const title = run.job ?? run.jobUrl ?? run.threadId;
+	return \`<header><h2>\${escapeHtml(title)}</h2><span class="status \${escapeHtml(run.status)}">\${escapeHtml(run.status)}</span></header>
+<p class="muted"><a href="\${escapeHtml(run.jobUrl)}" target="_blank" rel="noreferrer">\${escapeHtml(run.jobUrl)}</a> &middot; \${escapeHtml(run.threadId)} &middot; \${escapeHtml(run.updatedAt)}</p>
+<div class="columns"><div>\${renderPosting(run)}
+<img src="/api/runs/\${encodeURIComponent(run.threadId)}/screenshot?at=\${encodeURIComponent(run.updatedAt ?? "")}" alt="Latest screenshot" onerror="this.remove()"></div>
+<form>\${interrupt ? \`<h3>Waiting on \${escapeHtml(interrupt.type ?? "input")}</h3>\${renderInterruptForm(interrupt)}\` : ""}<p class="result"></p></form></div>
+\${renderFields(run, isReview)}\`;
+}
+
+function buildReply(card, action) {
+	const value = (name) => card.querySelector(\`[name="\${name}"]\`)?.value ?? "";
+	switch (action) {
+		case "answers": {
+			const inputs = [...card.querySelectorAll("[data-question]")];
+			return inputs.length
+				? { answers: Object.fromEntries(inputs.map((input) => [input.dataset.question, input.value.trim()])) }
+				: { text: value("text") };
+		}
+		case "code":
+			return { text: value("code") };
+		case "link":
+			return { text: "done" };
+		case "password":
+			return { text: value("password") };
+		case "continue":
+			return { text: "yes" };
+		case "skip-fit":
+			return { text: "no" };
+		case "approve":
+			return { text: "approve" };
+		case "skip":
+			return { text: "skip" };
+		case "edit":
+			return { text: "edit", coverLetter: value("coverLetter") };
+		case "retry":
+			return { text: "retry" };
+		case "stop":
+			return { text: "stop" };
+		case "no-limit":
+			return { text: "continue" };
+		case "raise":
+			return value("limit").trim() ? { text: value("limit") } : undefined;
+		case "revise":
+			return value("feedback").trim() ? { text: value("feedback") } : undefined;
+		case "suggest": {
+			const suggestions = [
+				...[...card.querySelectorAll("[data-field]")]
+					.filter((input) => input.value.trim())
+					.map((input) => \`\${input.dataset.field}: \${input.value.trim()}\`),
+				...value("suggestions").split("\\n").map((line) => line.trim()).filter(Boolean),
+			];
+			return suggestions.length ? { suggestions } : undefined;
+		}
+	}
+}
+
+async function sendReply(card, run, action) {
+	const result = card.querySelector(".result");
+	const reply = buildReply(card, action);
+	if (!reply) {
+		result.textContent = "Write something first.";
+		return;
+	}
+	card.querySelectorAll("button").forEach((button) => { button.disabled = true; });
+	const response = await fetch(\`/api/runs/\${encodeURIComponent(run.threadId)}/reply\`, {
+		method: "POST",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify(reply),
+	});
+	const body = await response.json();
+	result.textContent = response.ok ? "Answer sent, the run is queued." : body.error;
+	if (!response.ok) {
+		card.querySelectorAll("button").forEach((button) => { button.disabled = false; });
+	}
+}
+
+async function refresh() {
+	const runs = (await (await fetch("/api/runs")).json()).filter((run) => reviewStatuses.has(run.status));
+	const shown = new Set();
+	for (const run of runs) {
+		shown.add(run.threadId);
+		const key = \`\${run.status}|\${run.updatedAt}\`;
+		const existing = document.getElementById(\`run-\${run.threadId}\`);
+		if (existing?.dataset.key === key) {
+			container.appendChild(existing);
+			continue;
+		}
+		const card = document.createElement("section");
+		card.className = "run";
+		card.id = \`run-\${run.threadId}\`;
+		card.dataset.key = key;
+		card.innerHTML = renderRun(run);
+		card.querySelector("form").addEventListener("submit", (event) => event.preventDefault());
+		card.querySelectorAll("button[data-action]").forEach((button) => {
+			button.type = "button";
+			button.addEventListener("click", () => sendReply(card, run, button.dataset.action));
+		});
+		existing?.remove();
+		container.appendChild(card);
+	}
+	for (const card of [...container.querySelectorAll(".run")]) {
+		if (!shown.has(card.id.slice(4))) {
+			card.remove();
+		}
+	}
+	document.getElementById("empty").hidden = runs.length > 0;
+}
+
+let refreshTimer;
+function scheduleRefresh() {
+	clearTimeout(refreshTimer);
+	refreshTimer = setTimeout(() => refresh().catch(console.error), 300);
+}
+
+const events = new EventSource("/api/events");
+for (const type of ["status", "node", "run"]) {
+	events.addEventListener(type, scheduleRefresh);
+}
+events.onopen = () => { connection.textContent = "live"; };
+events.onerror = () => { connection.textContent = "reconnecting..."; };
+setInterval(scheduleRefresh, 15000);
+refresh().catch(console.error);
+`;
+
+/**
+ * The review dashboard: one card per queued, running or parked run, with
+ * the posting, the latest screenshot, the form fields and a form for the
+ * pending interrupt.
+ */
+export function renderDashboardPage(): string {
+	return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>OpenDoor review</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 1200px; color: #222; padding: 0 1rem; }
+body > header { display: flex; align-items: baseline; gap: 1rem; }
+h1 { font-size: 1.4rem; }
+h2 { font-size: 1.15rem; margin: 0; }
+h3 { font-size: 1rem; }
+.run { border: 1px solid #ddd; border-radius: 6px; padding: 1rem; margin-bottom: 1.5rem; }
+.run > header { display: flex; justify-content: space-between; align-items: center; gap: 1rem; }
+.columns { display: grid; grid-template-columns: 1fr 1fr; gap: 1.5rem; }
+.muted, #connection { color: #666; font-size: 0.85rem; word-break: break-all; }
+.status { padding: 0.15rem 0.5rem; border-radius: 4px; background: #eee; font-size: 0.85rem; }
+.status.awaiting_input { background: #fff1d6; color: #8a5a00; }
+.status.blocked { background: #fde2e4; color: #b00020; }
+.status.running { background: #dff3e6; color: #0b6b2b; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.2rem 1rem; margin: 0 0 0.5rem; }
+dt { color: #666; }
+dd { margin: 0; }
+img { max-width: 100%; border: 1px solid #ddd; margin-top: 0.5rem; }
+label { display: block; margin: 0.5rem 0; }
+input, textarea { display: block; width: 100%; box-sizing: border-box; margin-top: 0.2rem; font: inherit; }
+button { margin: 0.5rem 0.25rem 0 0; font: inherit; }
+table { border-collapse: collapse; width: 100%; font-size: 0.85rem; }
+th, td { border-bottom: 1px solid #eee; padding: 0.3rem; text-align: left; vertical-align: top; }
+.missing { color: #b00020; font-weight: 600; }
+.changed { color: #8a5a00; font-weight: 600; }
+.result { color: #8a5a00; }
+</style>
+</head>
+<body>
+<header><h1>Applications waiting for review</h1><span id="connection">connecting...</span></header>
+<p id="empty" class="muted">No queued, running or parked runs.</p>
+<main id="runs"></main>
+<script>${dashboardScript}</script>
+</body>
+</html>
+`;
+}
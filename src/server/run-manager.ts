@@ -0,0 +1,204 @@
+import { randomUUID } from "node:crypto";
+import { EventEmitter } from "node:events";
+import { Command } from "@langchain/langgraph";
+import { logger } from "../index.js";
+import type { ApplicantDocument, Budget } from "../states/state.js";
+import { checkpointer } from "../stores/checkpoint.store.js";
+import { recordRunEvent } from "../stores/run-artifacts.store.js";
+import { resolveBudget } from "../utils/budget.js";
+import { closeStagehandInstance } from "../utils/instances.js";
+import type { InterruptAnswers } from "../utils/interrupt-policy.js";
+import { describeJobPosting } from "../utils/job-posting.js";
+import { logContext } from "../utils/log-stream.js";
+import {
+	getThreadSummary,
+	type InterruptHandler,
+	runThread,
+	type ThreadRunResult,
+	type ThreadStatus,
+	type ThreadSummary,
+} from "../utils/run-thread.js";
+
+export type ManagedRunStatus = ThreadStatus | "queued" | "running";
+
+export type ManagedRun = Omit<ThreadSummary, "status" | "values"> & {
+	status: ManagedRunStatus;
+	job?: string;
+	values?: ThreadSummary["values"];
+};
+
+export type StartRunInput = {
+	jobUrl: string;
+	resumePath: string;
+	documents: Pick<ApplicantDocument, "label" | "path">[];
+	extraPromptsPath?: string;
+	profilePath?: string;
+	refreshProfile?: boolean;
+	force?: boolean;
+	ats?: string;
+	actionCache?: boolean;
+	coverLetterEnabled?: boolean;
+	budget?: Budget;
+};
+
+// Interrupts the policies leave to a human are parked, so the browser is
+// free for other runs while the thread waits for an answer over the API.
+const parkInterrupt: InterruptHandler = async () => undefined;
+
+/**
+ * Runs graph threads one at a time, since they share one browser. Threads
+ * waiting on an interrupt are parked and re-queued once it is answered. The
+ * browser restarts when the next job belongs to another thread, so a resumed
+ * thread reopens its application as it would in a new process.
+ */
+export function createRunManager(options: { answers: InterruptAnswers }) {
+	const activeRuns = new Map<
+		string,
+		{ status: "queued" | "running"; jobUrl?: string; queuedAt: string }
+	>();
+	const statusEmitter = new EventEmitter<{
+		status: [threadId: string, status: ManagedRunStatus];
+	}>();
+	let queue: Promise<void> = Promise.resolve();
+	let browserThreadId: string | undefined;
+
+	const enqueue = (
+		threadId: string,
+		jobUrl: string | undefined,
+		run: () => Promise<ThreadRunResult>,
+	) => {
+		activeRuns.set(threadId, {
+			status: "queued",
+			jobUrl,
+			queuedAt: new Date().toISOString(),
+		});
+		statusEmitter.emit("status", threadId, "queued");
+
+		queue = queue.then(async () => {
+			const entry = activeRuns.get(threadId);
+			if (entry) {
+				entry.status = "running";
+			}
+			statusEmitter.emit("status", threadId, "running");
+
+			let status: ManagedRunStatus = "failed";
+			try {
+				if (browserThreadId && browserThreadId !== threadId) {
+					await closeStagehandInstance();
+				}
+				browserThreadId = threadId;
+				status = (await logContext.run({ threadId }, run)).status;
+			} catch (error) {
+				logger.error({ threadId, error }, "Run failed");
+			} finally {
+				activeRuns.delete(threadId);
+				statusEmitter.emit("status", threadId, status);
+			}
+		});
+	};
+
+	const getRun = async (threadId: string): Promise<ManagedRun | undefined> => {
+		const active = activeRuns.get(threadId);
+		const summary = await getThreadSummary(threadId);
+		if (!summary) {
+			return active
+				? {
+						threadId,
+						status: active.status,
+						jobUrl: active.jobUrl,
+						next: [],
+						updatedAt: active.queuedAt,
+					}
+				: undefined;
+		}
+
+		return {
+			...summary,
+			job: describeJobPosting(summary.values.jobPosting),
+			status: active?.status ?? summary.status,
+			pendingInterrupt: active ? undefined : summary.pendingInterrupt,
+		};
+	};
+
+	return {
+		onStatus: (
+			listener: (threadId: string, status: ManagedRunStatus) => void,
+		) => {
+			statusEmitter.on("status", listener);
+			return () => statusEmitter.off("status", listener);
+		},
+
+		getRun,
+
+		listRuns: async (): Promise<ManagedRun[]> => {
+			const threadIds = new Set([
+				...checkpointer.listThreadIds(),
+				...activeRuns.keys(),
+			]);
+			const runs: ManagedRun[] = [];
+			for (const threadId of threadIds) {
+				const run = await getRun(threadId);
+				if (run) {
+					runs.push(run);
+				}
+			}
+			return runs.sort((a, b) =>
+				(b.updatedAt ?? "").localeCompare(a.updatedAt ?? ""),
+			);
+		},
+
+		isActive: (threadId: string) => activeRuns.has(threadId),
+
+		startRun: (input: StartRunInput): string => {
+			const threadId = randomUUID();
+			logger.info({ threadId, jobUrl: input.jobUrl }, "Queued run");
+			enqueue(threadId, input.jobUrl, () =>
+				runThread(
+					{
+						jobUrl: input.jobUrl,
+						resumePath: input.resumePath,
+						documents: input.documents,
+						extraPromptsPath: input.extraPromptsPath,
+						profilePath: input.profilePath,
+						refreshProfile: input.refreshProfile,
+						force: input.force,
+						atsOverride: input.ats,
+						actionCache: input.actionCache,
+						coverLetterEnabled: input.coverLetterEnabled,
+						budget: resolveBudget(input.budget ?? {}),
+					},
+					threadId,
+					parkInterrupt,
+					options,
+				),
+			);
+			return threadId;
+		},
+
+		/**
+		 * Resumes a parked thread with the given answer. The answer is used as
+		 * is, without going through the interrupt policy again.
+		 */
+		resumeRun: (
+			threadId: string,
+			jobUrl: string | undefined,
+			resumeValue: unknown,
+		): void => {
+			logger.info({ threadId }, "Queued interrupt answer");
+			enqueue(threadId, jobUrl, async () => {
+				await recordRunEvent(threadId, {
+					type: "interrupt_answer",
+					data: resumeValue,
+				});
+				return runThread(
+					new Command({ resume: resumeValue }),
+					threadId,
+					parkInterrupt,
+					options,
+				);
+			});
+		},
+	};
+}
+
+export type RunManager = ReturnType<typeof createRunManager>;
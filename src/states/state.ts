@@ -15,22 +15,424 @@ export const fillContextSchema = z
 		"Persisted fill-form context to help resumed runs continue without rediscovering the whole form.",
 	);
 
+export const documentKindSchema = z.enum([
+	"resume",
+	"cover_letter",
+	"transcript",
+	"portfolio",
+	"other",
+]);
+
+export const applicantDocumentSchema = z
+	.object({
+		label: z
+			.string()
+			.describe("Label given by the user, e.g. 'resume' or 'transcript'."),
+		path: z.string(),
+		kind: documentKindSchema.optional(),
+		mimeType: z.string().optional(),
+		text: z.string().optional().describe("Parsed text content."),
+	})
+	.describe("A file the applicant can upload to the application form.");
+
+export type ApplicantDocument = z.infer<typeof applicantDocumentSchema>;
+
+export const fillStatusSchema = z.object({
+	success: z.boolean(),
+	message: z.string(),
+	completed: z.boolean(),
+});
+
+export const employmentTypeSchema = z.enum([
+	"co-op",
+	"internship",
+	"full-time",
+	"part-time",
+	"contract",
+	"other",
+]);
+
+export const jobPostingSchema = z
+	.object({
+		company: z.string().optional(),
+		title: z.string().optional(),
+		location: z
+			.string()
+			.optional()
+			.describe("City/region/country, or 'Remote'."),
+		employmentType: employmentTypeSchema.optional(),
+		description: z
+			.string()
+			.optional()
+			.describe("Job description: responsibilities, team and product."),
+		requirements: z
+			.array(z.string())
+			.default([])
+			.describe("Listed requirements and qualifications."),
+		deadline: z
+			.string()
+			.optional()
+			.describe("Application deadline as YYYY-MM-DD, when stated."),
+		atsVendor: z
+			.string()
+			.optional()
+			.describe(
+				"Applicant tracking system hosting the posting, e.g. greenhouse, lever, workday.",
+			),
+	})
+	.describe("Structured job posting extracted from the posting page.");
+
+export type JobPosting = z.infer<typeof jobPostingSchema>;
+
+export const formFieldSchema = z.object({
+	section: z
+		.string()
+		.optional()
+		.describe("Form page or section heading the field belongs to."),
+	label: z.string().describe("Field label as shown on the page."),
+	value: z
+		.string()
+		.describe(
+			"Current value as displayed: typed text, selected option(s), checked state, or uploaded file names. Empty string when blank.",
+		),
+	required: z.boolean().describe("Whether the field is marked required."),
+	type: z
+		.string()
+		.optional()
+		.describe("Input kind, e.g. text, select, checkbox, radio, file."),
+	changed: z
+		.boolean()
+		.optional()
+		.describe("Whether the value differs from the previous review round."),
+	previousValue: z.string().optional(),
+	page: z
+		.number()
+		.int()
+		.positive()
+		.optional()
+		.describe("Form page the field is on, counting from 1."),
+});
+
+export type FormField = z.infer<typeof formFieldSchema>;
+
+export const formPageSchema = z
+	.object({
+		capturedAt: z.string(),
+		pageUrl: z.string(),
+		fields: z.array(formFieldSchema),
+	})
+	.describe("Fields of one form page, captured when the agent finished it.");
+
+export type FormPage = z.infer<typeof formPageSchema>;
+
+export const fieldSnapshotSchema = z
+	.object({
+		capturedAt: z.string(),
+		pageUrl: z.string(),
+		round: z.number().int().positive(),
+		fields: z.array(formFieldSchema),
+		notes: z
+			.array(z.string())
+			.optional()
+			.describe(
+				"Why the snapshot is incomplete, e.g. a page could not be read.",
+			),
+	})
+	.describe(
+		"Every visible field on all form pages, captured before submission review.",
+	);
+
+export type FieldSnapshot = z.infer<typeof fieldSnapshotSchema>;
+
+export const fitAssessmentSchema = z
+	.object({
+		score: z
+			.number()
+			.min(0)
+			.max(100)
+			.describe("How well the applicant fits the posting, 0-100."),
+		reasons: z
+			.array(z.string())
+			.describe("Short reasons for the score, strongest first."),
+		failedConstraints: z
+			.array(z.string())
+			.default([])
+			.describe(
+				"Hard constraints the posting clearly violates, each with the evidence.",
+			),
+	})
+	.describe("Fit of the applicant for the posting, checked before applying.");
+
+export type FitAssessment = z.infer<typeof fitAssessmentSchema>;
+
+export const submissionResultSchema = z
+	.object({
+		submitted: z.boolean(),
+		message: z.string(),
+		confirmed: z
+			.boolean()
+			.optional()
+			.describe("Whether the page confirmed the application was received."),
+		confirmationNumber: z.string().optional(),
+		validationErrors: z.array(z.string()).optional(),
+	})
+	.describe("Outcome of the final submit action.");
+
+export const submissionVerificationSchema = z.object({
+	status: z
+		.enum(["confirmed", "validation_errors", "unknown"])
+		.describe(
+			"confirmed: the page says the application was received/submitted. validation_errors: the form is still shown with errors to fix. unknown: neither is clear.",
+		),
+	confirmationMessage: z
+		.string()
+		.optional()
+		.describe("The confirmation or status message shown on the page."),
+	confirmationNumber: z
+		.string()
+		.optional()
+		.describe("Application/reference/confirmation number, if shown."),
+	validationErrors: z
+		.array(z.string())
+		.default([])
+		.describe(
+			"Each validation error shown, with the field it belongs to, e.g. 'Phone: enter a valid phone number'.",
+		),
+});
+
+const profileDateSchema = z
+	.string()
+	.describe("Date as YYYY-MM (or YYYY-MM-DD when the day is known).");
+
+export const applicantProfileSchema = z
+	.object({
+		contact: z.object({
+			firstName: z.string(),
+			lastName: z.string(),
+			preferredName: z.string().optional(),
+			email: z.string(),
+			phone: z
+				.string()
+				.optional()
+				.describe("Phone number in E.164 format, e.g. +16045551234."),
+		}),
+		address: z
+			.object({
+				street: z.string().optional(),
+				city: z.string().optional(),
+				region: z
+					.string()
+					.optional()
+					.describe("State or province, spelled out in full."),
+				postalCode: z.string().optional(),
+				country: z.string().optional().describe("Country name in English."),
+			})
+			.default({}),
+		links: z
+			.object({
+				linkedin: z.string().optional(),
+				github: z.string().optional(),
+				portfolio: z.string().optional(),
+				other: z
+					.array(z.object({ label: z.string(), url: z.string() }))
+					.default([]),
+			})
+			.default({ other: [] }),
+		education: z
+			.array(
+				z.object({
+					institution: z.string(),
+					degree: z.string().optional(),
+					fieldOfStudy: z.string().optional(),
+					startDate: profileDateSchema.optional(),
+					endDate: profileDateSchema
+						.optional()
+						.describe("Graduation or expected graduation date."),
+					gpa: z.string().optional(),
+					gpaScale: z.string().optional(),
+				}),
+			)
+			.default([]),
+		workHistory: z
+			.array(
+				z.object({
+					employer: z.string(),
+					title: z.string(),
+					location: z.string().optional(),
+					startDate: profileDateSchema.optional(),
+					endDate: profileDateSchema
+						.optional()
+						.describe("Omit when this is the current position."),
+					current: z.boolean().default(false),
+					highlights: z.array(z.string()).default([]),
+				}),
+			)
+			.default([]),
+		skills: z.array(z.string()).default([]),
+		workAuthorization: z
+			.object({
+				country: z.string().optional(),
+				authorizedToWork: z.boolean().optional(),
+				requiresSponsorship: z.boolean().optional(),
+				status: z
+					.string()
+					.optional()
+					.describe("e.g. citizen, permanent resident, study permit."),
+			})
+			.default({}),
+	})
+	.describe("Structured applicant profile extracted from the resume.");
+
+export type ApplicantProfile = z.infer<typeof applicantProfileSchema>;
+
+export const budgetSchema = z
+	.object({
+		maxCostUsd: z
+			.number()
+			.positive()
+			.optional()
+			.describe("Estimated model cost per run, from the `prices` table."),
+		maxSteps: z
+			.number()
+			.int()
+			.positive()
+			.optional()
+			.describe("Browser actions per run: agent actions plus act calls."),
+		maxReviewRounds: z
+			.number()
+			.int()
+			.positive()
+			.optional()
+			.describe("Submission review rounds before asking to stop."),
+	})
+	.describe(
+		"Per-run limits. Reaching one raises a `budget_exceeded` interrupt.",
+	);
+
+export type Budget = z.infer<typeof budgetSchema>;
+
+export const errorKindSchema = z
+	.enum([
+		"navigation_timeout",
+		"model_rate_limit",
+		"model_server_error",
+		"action_failure",
+		"auth_failure",
+		"bot_detection",
+		"user_abort",
+		"unknown",
+	])
+	.describe("What kind of failure a thrown error was.");
+
+export type ErrorKind = z.infer<typeof errorKindSchema>;
+
+export const recoverySchema = z
+	.object({
+		node: z.string().describe("Node that threw."),
+		kind: errorKindSchema,
+		message: z.string(),
+		pageUrl: z.string().optional(),
+		attempts: z
+			.number()
+			.int()
+			.positive()
+			.describe("Failures of this node in a row, including this one."),
+		escalated: z
+			.boolean()
+			.optional()
+			.describe(
+				"The automatic reload did not help; the next RecoveryNode pass asks the user.",
+			),
+	})
+	.describe("The latest node failure, for RecoveryNode to handle.");
+
 export const stateSchema = new StateSchema({
 	messages: MessagesValue,
 	jobUrl: z.url(),
 	resumePath: z.string(),
 	resumeText: z.string().optional(),
+	documents: z.array(applicantDocumentSchema).optional(),
+	profilePath: z
+		.string()
+		.optional()
+		.describe("Reviewable JSON file holding the applicant profile."),
+	refreshProfile: z
+		.boolean()
+		.optional()
+		.describe("Re-extract the applicant profile even if the file exists."),
+	applicantProfile: applicantProfileSchema.optional(),
 	extraPromptsPath: z.string().optional(),
 	extraPrompts: z.string().optional(),
-	fillStatus: z
-		.object({
-			success: z.boolean(),
-			message: z.string(),
-			completed: z.boolean(),
-		})
-		.optional(),
+	force: z
+		.boolean()
+		.optional()
+		.describe("Apply even if the posting was already submitted before."),
+	atsOverride: z
+		.string()
+		.optional()
+		.describe("ATS adapter to use: a vendor, 'auto' or 'none'."),
+	actionCache: z
+		.boolean()
+		.optional()
+		.describe("Replay and record cached browser actions; off with --no-cache."),
+	coverLetterEnabled: z
+		.boolean()
+		.optional()
+		.describe(
+			"Draft a cover letter when none is provided; off with --no-cover-letter.",
+		),
+	jobPosting: jobPostingSchema.optional(),
+	atsAdapter: z
+		.string()
+		.optional()
+		.describe("Vendor of the ATS adapter selected for this posting."),
+	fitAssessment: fitAssessmentSchema.optional(),
+	coverLetter: z
+		.string()
+		.optional()
+		.describe("Approved cover letter text, for forms that ask for it inline."),
+	coverLetterDraft: z
+		.string()
+		.optional()
+		.describe(
+			"Draft waiting for review, kept so a resumed run does not redraft it.",
+		),
+	skipReason: z.string().optional(),
+	fillStatus: fillStatusSchema.optional(),
+	formUrl: z
+		.string()
+		.optional()
+		.describe("Page the form was last filled on, checked before submitting."),
 	reviewSuggestions: reviewSuggestionsSchema.optional(),
 	fillContext: fillContextSchema.optional(),
+	submissionResult: submissionResultSchema.optional(),
+	submitAttempts: z
+		.number()
+		.int()
+		.nonnegative()
+		.optional()
+		.describe("Submit clicks so far, to stop validation-error loops."),
+	formPages: z
+		.array(formPageSchema)
+		.optional()
+		.describe("Fields of each form page FillFormNode finished, in order."),
+	fieldSnapshot: fieldSnapshotSchema.optional(),
+	reviewRounds: z
+		.number()
+		.int()
+		.nonnegative()
+		.optional()
+		.describe("Submission reviews that asked for changes."),
+	fieldSnapshotPath: z
+		.string()
+		.optional()
+		.describe("File holding the latest field snapshot."),
+	budget: budgetSchema
+		.optional()
+		.describe(
+			"Limits for this run: CLI options over the `budgets` config section, as raised or dropped at `budget_exceeded` interrupts.",
+		),
+	recovery: recoverySchema.optional(),
 });
 
 export type AgentStateType = typeof stateSchema.State;
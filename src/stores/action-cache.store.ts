@@ -0,0 +1,171 @@
+import { existsSync } from "node:fs";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import z from "zod";
+import { envVars } from "../utils/env.js";
+
+const cachedActionSchema = z.object({
+	selector: z.string(),
+	description: z.string(),
+	method: z.string().optional(),
+	arguments: z.array(z.string()).optional(),
+});
+
+export const cachedStepSchema = z.discriminatedUnion("type", [
+	z.object({ type: z.literal("act"), action: cachedActionSchema }),
+	z.object({ type: z.literal("goto"), url: z.string() }),
+	z.object({ type: z.literal("navback") }),
+	z.object({ type: z.literal("wait"), timeMs: z.number().nonnegative() }),
+	z.object({
+		type: z.literal("keys"),
+		method: z.enum(["type", "press"]),
+		value: z.string(),
+		times: z.number().int().positive().default(1),
+	}),
+	z.object({
+		type: z.literal("tool"),
+		name: z.string(),
+		args: z.record(z.string(), z.unknown()),
+	}),
+]);
+
+export type CachedStep = z.infer<typeof cachedStepSchema>;
+
+export const actionCacheEntrySchema = z.object({
+	domain: z.string(),
+	tenant: z
+		.string()
+		.describe("ATS tenant of the page, e.g. jobs.lever.co/acme."),
+	ats: z.string().optional().describe("Vendor of the ATS adapter, if any."),
+	step: z.string().describe("What the steps do, e.g. 'fill form'."),
+	structure: z
+		.string()
+		.describe("Hash of the form controls on the page when recorded."),
+	node: z.string().optional(),
+	steps: z
+		.array(cachedStepSchema)
+		.describe("Typed values are stored as %name% placeholders."),
+	result: z
+		.record(z.string(), z.unknown())
+		.describe(
+			"The recorded act or agent result without its actions, returned on replay.",
+		),
+	createdAt: z.string(),
+	updatedAt: z.string(),
+	lastUsedAt: z.string().optional(),
+	hitCount: z.number().int().nonnegative().default(0),
+});
+
+export type ActionCacheEntry = z.infer<typeof actionCacheEntrySchema>;
+
+// Version 1 keyed entries by instruction and stored typed values as is.
+const actionCacheVersion = 2;
+
+const actionCacheSchema = z.object({
+	version: z.literal(actionCacheVersion),
+	entries: z.record(z.string(), actionCacheEntrySchema).default({}),
+});
+
+type ActionCache = z.infer<typeof actionCacheSchema>;
+
+export const actionCacheFilePath = join(envVars.DATA_DIR, "action-cache.json");
+
+/**
+ * Reads the cache. A file of an older version reads as empty, so the next
+ * write replaces its entries.
+ */
+export async function readActionCache(): Promise<ActionCache> {
+	if (!existsSync(actionCacheFilePath)) {
+		return { version: actionCacheVersion, entries: {} };
+	}
+
+	const content = JSON.parse(await readFile(actionCacheFilePath, "utf-8"));
+	if (content?.version !== actionCacheVersion) {
+		return { version: actionCacheVersion, entries: {} };
+	}
+	return actionCacheSchema.parse(content);
+}
+
+async function writeActionCache(cache: ActionCache): Promise<void> {
+	await mkdir(dirname(actionCacheFilePath), { recursive: true });
+	const tempPath = `${actionCacheFilePath}.tmp`;
+	await writeFile(tempPath, `${JSON.stringify(cache, null, "\t")}\n`);
+	await rename(tempPath, actionCacheFilePath);
+}
+
+export async function getCachedActions(
+	key: string,
+): Promise<ActionCacheEntry | undefined> {
+	return (await readActionCache()).entries[key];
+}
+
+export async function saveCachedActions(
+	key: string,
+	entry: Omit<ActionCacheEntry, "createdAt" | "updatedAt" | "hitCount">,
+): Promise<void> {
+	const cache = await readActionCache();
+	const existing = cache.entries[key];
+	const now = new Date().toISOString();
+
+	cache.entries[key] = {
+		...entry,
+		createdAt: existing?.createdAt ?? now,
+		updatedAt: now,
+		lastUsedAt: existing?.lastUsedAt,
+		hitCount: existing?.hitCount ?? 0,
+	};
+	await writeActionCache(cache);
+}
+
+/**
+ * Counts a replay of the entry, storing the steps again when a selector
+ * had to be healed on the way.
+ */
+export async function recordCacheHit(
+	key: string,
+	steps?: CachedStep[],
+): Promise<void> {
+	const cache = await readActionCache();
+	const entry = cache.entries[key];
+	if (!entry) {
+		return;
+	}
+
+	const now = new Date().toISOString();
+	cache.entries[key] = {
+		...entry,
+		steps: steps ?? entry.steps,
+		updatedAt: steps ? now : entry.updatedAt,
+		lastUsedAt: now,
+		hitCount: entry.hitCount + 1,
+	};
+	await writeActionCache(cache);
+}
+
+/**
+ * Deletes entries by key, by domain (including subdomains), or all of them
+ * when no filter is given. Returns how many were deleted.
+ */
+export async function clearActionCache(
+	filter: { key?: string; domain?: string } = {},
+): Promise<number> {
+	const cache = await readActionCache();
+	const keys = Object.entries(cache.entries)
+		.filter(
+			([key, entry]) =>
+				(!filter.key || key === filter.key) &&
+				(!filter.domain ||
+					entry.domain === filter.domain ||
+					entry.domain.endsWith(`.${filter.domain}`)),
+		)
+		.map(([key]) => key);
+	if (keys.length === 0) {
+		return 0;
+	}
+
+	for (const key of keys) {
+		delete cache.entries[key];
+	}
+	await writeActionCache(cache);
+	return keys.length;
+}
@@ -0,0 +1,198 @@
+import { existsSync } from "node:fs";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import z from "zod";
+import { logger } from "../index.js";
+import { envVars } from "../utils/env.js";
+import { getStructuredModel } from "../utils/instances.js";
+
+export const storedAnswerSchema = z.object({
+	question: z.string().describe("The question as it was first asked."),
+	answer: z.string(),
+	createdAt: z.string(),
+	updatedAt: z.string(),
+	lastUsedAt: z.string().optional(),
+	useCount: z.number().int().nonnegative().default(0),
+});
+
+export type StoredAnswer = z.infer<typeof storedAnswerSchema>;
+
+const answerBankSchema = z.object({
+	answers: z.record(z.string(), storedAnswerSchema).default({}),
+});
+
+type AnswerBank = z.infer<typeof answerBankSchema>;
+
+export type AnsweredQuestion = {
+	question: string;
+	key: string;
+	answer: string;
+	match: "exact" | "semantic";
+};
+
+const semanticMatchSchema = z.object({
+	matches: z.array(
+		z.object({
+			question: z.string().describe("The new question, copied verbatim."),
+			storedKey: z
+				.string()
+				.optional()
+				.describe(
+					"Key of the stored question asking for the same information. Omit when none matches.",
+				),
+		}),
+	),
+});
+
+export const answerBankFilePath = join(envVars.DATA_DIR, "answers.json");
+
+/**
+ * Normalizes a missing-field label so the same question asked with different
+ * punctuation, casing or "required" markers maps to one key.
+ */
+export function normalizeQuestionKey(question: string): string {
+	return question
+		.toLowerCase()
+		.replace(/\(required\)|\brequired\b|\*/g, " ")
+		.replace(/[^\p{L}\p{N}]+/gu, " ")
+		.trim()
+		.replace(/\s+/g, " ");
+}
+
+export async function readAnswerBank(): Promise<AnswerBank> {
+	if (!existsSync(answerBankFilePath)) {
+		return { answers: {} };
+	}
+
+	return answerBankSchema.parse(
+		JSON.parse(await readFile(answerBankFilePath, "utf-8")),
+	);
+}
+
+async function writeAnswerBank(bank: AnswerBank): Promise<void> {
+	await mkdir(dirname(answerBankFilePath), { recursive: true });
+	const tempPath = `${answerBankFilePath}.tmp`;
+	await writeFile(tempPath, `${JSON.stringify(bank, null, "\t")}\n`);
+	await rename(tempPath, answerBankFilePath);
+}
+
+export async function saveAnswer(
+	question: string,
+	answer: string,
+): Promise<string> {
+	const bank = await readAnswerBank();
+	const key = normalizeQuestionKey(question);
+	const now = new Date().toISOString();
+	const existing = bank.answers[key];
+
+	bank.answers[key] = {
+		question: existing?.question ?? question.trim(),
+		answer: answer.trim(),
+		createdAt: existing?.createdAt ?? now,
+		updatedAt: now,
+		lastUsedAt: existing?.lastUsedAt,
+		useCount: existing?.useCount ?? 0,
+	};
+	await writeAnswerBank(bank);
+	return key;
+}
+
+export async function deleteAnswer(questionOrKey: string): Promise<boolean> {
+	const bank = await readAnswerBank();
+	const key = normalizeQuestionKey(questionOrKey);
+	if (!bank.answers[key]) {
+		return false;
+	}
+
+	delete bank.answers[key];
+	await writeAnswerBank(bank);
+	return true;
+}
+
+async function findSemanticMatches(
+	questions: string[],
+	bank: AnswerBank,
+): Promise<Map<string, string>> {
+	const storedQuestions = Object.entries(bank.answers).map(
+		([key, stored]) => `- ${key}: ${stored.question}`,
+	);
+	const model = await getStructuredModel(semanticMatchSchema);
+	const result = semanticMatchSchema.parse(
+		await model.invoke([
+			{
+				role: "system",
+				content:
+					"You match job application questions to previously answered questions. Only match when the stored question asks for exactly the same information, so its answer can be reused unchanged.",
+			},
+			{
+				role: "user",
+				content: `Stored questions (key: question):\n${storedQuestions.join("\n")}\n\nNew questions:\n${questions.map((question) => `- ${question}`).join("\n")}`,
+			},
+		]),
+	);
+
+	const matches = new Map<string, string>();
+	for (const { question, storedKey } of result.matches) {
+		if (storedKey && bank.answers[storedKey] && questions.includes(question)) {
+			matches.set(question, storedKey);
+		}
+	}
+	return matches;
+}
+
+/**
+ * Answers missing-field questions from the bank, first by normalized key and
+ * then by asking the model for semantically equivalent stored questions.
+ */
+export async function lookupAnswers(questions: string[]): Promise<{
+	answered: AnsweredQuestion[];
+	unanswered: string[];
+}> {
+	const bank = await readAnswerBank();
+	const answered: AnsweredQuestion[] = [];
+	let unanswered: string[] = [];
+
+	for (const question of questions) {
+		const key = normalizeQuestionKey(question);
+		const stored = bank.answers[key];
+		if (stored) {
+			answered.push({ question, key, answer: stored.answer, match: "exact" });
+		} else {
+			unanswered.push(question);
+		}
+	}
+
+	if (unanswered.length > 0 && Object.keys(bank.answers).length > 0) {
+		try {
+			const matches = await findSemanticMatches(unanswered, bank);
+			for (const [question, key] of matches) {
+				const stored = bank.answers[key];
+				if (stored) {
+					answered.push({
+						question,
+						key,
+						answer: stored.answer,
+						match: "semantic",
+					});
+				}
+			}
+			unanswered = unanswered.filter((question) => !matches.has(question));
+		} catch (error) {
+			logger.warn({ error }, "Semantic answer bank lookup failed");
+		}
+	}
+
+	if (answered.length > 0) {
+		const now = new Date().toISOString();
+		for (const { key } of answered) {
+			const stored = bank.answers[key];
+			if (stored) {
+				stored.lastUsedAt = now;
+				stored.useCount += 1;
+			}
+		}
+		await writeAnswerBank(bank);
+	}
+
+	return { answered, unanswered };
+}
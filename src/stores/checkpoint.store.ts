@@ -0,0 +1,239 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync } from "node:fs";
+import { rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { MemorySaver } from "@langchain/langgraph";
+import { envVars } from "../utils/env.js";
+
+type StoredCheckpoint = [string, string, string | undefined];
+type StoredWrite = [string, string, string];
+
+type ThreadFile = {
+	storage: Record<string, Record<string, StoredCheckpoint>>;
+	writes: Record<string, Record<string, StoredWrite>>;
+};
+
+const THREAD_FILE_SUFFIX = ".json";
+const INTERRUPT_CHANNEL = "__interrupt__";
+const RESUME_CHANNEL = "__resume__";
+
+// Interrupts answered with a password or an email verification code.
+const secretInterruptTypes = new Set([
+	"account_password",
+	"account_verification",
+]);
+const secretKeys = ["password", "verificationCode"];
+
+function toBase64(value: Uint8Array): string {
+	return Buffer.from(value).toString("base64");
+}
+
+function fromBase64(value: string): Uint8Array {
+	return new Uint8Array(Buffer.from(value, "base64"));
+}
+
+function decodeWrite(value: Uint8Array): unknown {
+	try {
+		return JSON.parse(Buffer.from(value).toString("utf-8"));
+	} catch {
+		return undefined;
+	}
+}
+
+function containsSecret(value: unknown): boolean {
+	if (Array.isArray(value)) {
+		return value.some(containsSecret);
+	}
+	if (!value || typeof value !== "object") {
+		return false;
+	}
+
+	const record = value as Record<string, unknown>;
+	return (
+		secretInterruptTypes.has(String(record.type)) ||
+		secretKeys.some((key) => key in record) ||
+		Object.values(record).some(containsSecret)
+	);
+}
+
+/**
+ * Whether the answers written for a checkpoint must stay off disk: they carry
+ * a secret, or answer an interrupt that asks for one (a plain string reply).
+ */
+function hasSecretResume(writes: Record<string, [string, string, Uint8Array]>) {
+	return Object.values(writes).some(
+		([, channel, value]) =>
+			(channel === RESUME_CHANNEL || channel === INTERRUPT_CHANNEL) &&
+			containsSecret(decodeWrite(value)),
+	);
+}
+
+function threadIdFromWriteKey(key: string): string {
+	const [threadId] = JSON.parse(key) as [string, string, string];
+	return threadId;
+}
+
+/**
+ * Checkpointer that keeps MemorySaver's in-memory layout but mirrors every
+ * thread to its own JSON file, so interrupted runs survive process restarts.
+ * Passwords and verification codes given to interrupts stay in memory only;
+ * a thread loaded from its file asks for them again.
+ */
+export class FileCheckpointSaver extends MemorySaver {
+	private readonly loadedThreads = new Set<string>();
+	private persistQueue: Promise<void> = Promise.resolve();
+
+	constructor(private readonly directory: string) {
+		super();
+	}
+
+	listThreadIds(): string[] {
+		if (!existsSync(this.directory)) {
+			return [];
+		}
+
+		return readdirSync(this.directory)
+			.filter((fileName) => fileName.endsWith(THREAD_FILE_SUFFIX))
+			.map((fileName) => fileName.slice(0, -THREAD_FILE_SUFFIX.length));
+	}
+
+	override async getTuple(config: RunnableConfig) {
+		this.loadThread(config.configurable?.thread_id);
+		return super.getTuple(config);
+	}
+
+	override list(...args: Parameters<MemorySaver["list"]>) {
+		const [config] = args;
+		const threadId = config.configurable?.thread_id;
+		for (const id of threadId ? [threadId] : this.listThreadIds()) {
+			this.loadThread(id);
+		}
+		return super.list(...args);
+	}
+
+	override async put(...args: Parameters<MemorySaver["put"]>) {
+		const [config] = args;
+		this.loadThread(config.configurable?.thread_id);
+		const result = await super.put(...args);
+		await this.persistThread(config.configurable?.thread_id);
+		return result;
+	}
+
+	override async putWrites(...args: Parameters<MemorySaver["putWrites"]>) {
+		const [config] = args;
+		this.loadThread(config.configurable?.thread_id);
+		await super.putWrites(...args);
+		await this.persistThread(config.configurable?.thread_id);
+	}
+
+	override async deleteThread(threadId: string) {
+		await super.deleteThread(threadId);
+		this.loadedThreads.delete(threadId);
+		await rm(this.threadFilePath(threadId), { force: true });
+	}
+
+	private threadFilePath(threadId: string): string {
+		return join(this.directory, `${threadId}${THREAD_FILE_SUFFIX}`);
+	}
+
+	private loadThread(threadId: unknown): void {
+		if (typeof threadId !== "string" || this.loadedThreads.has(threadId)) {
+			return;
+		}
+		this.loadedThreads.add(threadId);
+
+		const filePath = this.threadFilePath(threadId);
+		if (!existsSync(filePath)) {
+			return;
+		}
+
+		const threadFile = JSON.parse(
+			readFileSync(filePath, "utf-8"),
+		) as ThreadFile;
+		const namespaces: MemorySaver["storage"][string] = {};
+		for (const [namespace, checkpoints] of Object.entries(threadFile.storage)) {
+			namespaces[namespace] = {};
+			for (const [
+				checkpointId,
+				[checkpoint, metadata, parentId],
+			] of Object.entries(checkpoints)) {
+				namespaces[namespace][checkpointId] = [
+					fromBase64(checkpoint),
+					fromBase64(metadata),
+					parentId,
+				];
+			}
+		}
+		this.storage[threadId] = namespaces;
+
+		for (const [key, writes] of Object.entries(threadFile.writes)) {
+			this.writes[key] = {};
+			for (const [innerKey, [taskId, channel, value]] of Object.entries(
+				writes,
+			)) {
+				this.writes[key][innerKey] = [taskId, channel, fromBase64(value)];
+			}
+		}
+	}
+
+	private persistThread(threadId: unknown): Promise<void> {
+		if (typeof threadId !== "string") {
+			return Promise.resolve();
+		}
+
+		// Serialize writes so concurrent putWrites calls never interleave on disk.
+		this.persistQueue = this.persistQueue
+			.catch(() => undefined)
+			.then(async () => {
+				const threadFile: ThreadFile = { storage: {}, writes: {} };
+				for (const [namespace, checkpoints] of Object.entries(
+					this.storage[threadId] ?? {},
+				)) {
+					threadFile.storage[namespace] = {};
+					for (const [
+						checkpointId,
+						[checkpoint, metadata, parentId],
+					] of Object.entries(checkpoints)) {
+						threadFile.storage[namespace][checkpointId] = [
+							toBase64(checkpoint),
+							toBase64(metadata),
+							parentId,
+						];
+					}
+				}
+
+				for (const [key, writes] of Object.entries(this.writes)) {
+					if (threadIdFromWriteKey(key) !== threadId) {
+						continue;
+					}
+
+					const secretResume = hasSecretResume(writes);
+					threadFile.writes[key] = {};
+					for (const [innerKey, [taskId, channel, value]] of Object.entries(
+						writes,
+					)) {
+						if (secretResume && channel === RESUME_CHANNEL) {
+							continue;
+						}
+						threadFile.writes[key][innerKey] = [
+							taskId,
+							channel,
+							toBase64(value),
+						];
+					}
+				}
+
+				mkdirSync(this.directory, { recursive: true });
+				const filePath = this.threadFilePath(threadId);
+				const tempPath = `${filePath}.tmp`;
+				await writeFile(tempPath, JSON.stringify(threadFile));
+				await rename(tempPath, filePath);
+			});
+
+		return this.persistQueue;
+	}
+}
+
+export const checkpointer = new FileCheckpointSaver(
+	join(envVars.DATA_DIR, "checkpoints"),
+);
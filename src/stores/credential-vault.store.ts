@@ -0,0 +1,285 @@
+import {
+	createCipheriv,
+	createDecipheriv,
+	randomBytes,
+	randomInt,
+	type ScryptOptions,
+	scrypt,
+} from "node:crypto";
+import { existsSync } from "node:fs";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import z from "zod";
+import { envVars } from "../utils/env.js";
+
+export const storedCredentialSchema = z.object({
+	key: z.string().describe("ATS tenant the account belongs to."),
+	email: z.string(),
+	password: z.string(),
+	loginUrl: z.string().optional(),
+	atsVendor: z.string().optional(),
+	generated: z
+		.boolean()
+		.describe(
+			"Whether the password was generated when the account was created.",
+		),
+	createdAt: z.string(),
+	updatedAt: z.string(),
+	lastUsedAt: z.string().optional(),
+});
+
+export type StoredCredential = z.infer<typeof storedCredentialSchema>;
+
+const vaultContentSchema = z.object({
+	credentials: z.record(z.string(), storedCredentialSchema).default({}),
+});
+
+type VaultContent = z.infer<typeof vaultContentSchema>;
+
+const vaultFileSchema = z.object({
+	version: z.literal(1),
+	kdf: z.object({
+		name: z.literal("scrypt"),
+		salt: z.string(),
+		N: z.number().int(),
+		r: z.number().int(),
+		p: z.number().int(),
+	}),
+	iv: z.string(),
+	tag: z.string(),
+	data: z.string(),
+});
+
+type VaultFile = z.infer<typeof vaultFileSchema>;
+
+export const credentialVaultFilePath = join(
+	envVars.DATA_DIR,
+	"credentials.vault.json",
+);
+
+// Shared ATS hosts that put the employer in the first path segment,
+// e.g. jobs.lever.co/acme.
+const pathTenantHosts = new Set([
+	"boards.greenhouse.io",
+	"job-boards.greenhouse.io",
+	"jobs.lever.co",
+	"jobs.eu.lever.co",
+	"jobs.ashbyhq.com",
+	"apply.workable.com",
+]);
+
+const scryptParameters = { N: 2 ** 15, r: 8, p: 1 };
+const passwordAlphabets = [
+	"ABCDEFGHJKLMNPQRSTUVWXYZ",
+	"abcdefghijkmnopqrstuvwxyz",
+	"23456789",
+	"!#$%*+-=?@_",
+];
+
+function deriveKey(
+	passphrase: string,
+	salt: Buffer,
+	parameters: ScryptOptions,
+): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		scrypt(
+			passphrase,
+			salt,
+			32,
+			{ ...parameters, maxmem: 64 * 1024 * 1024 },
+			(error, key) => (error ? reject(error) : resolve(key)),
+		);
+	});
+}
+
+/**
+ * Maps a URL to the ATS tenant its accounts belong to. Most ATS give each
+ * employer its own host (`acme.wd5.myworkdayjobs.com`, `acme.taleo.net`);
+ * SuccessFactors puts the tenant in the `company` query parameter, and
+ * Greenhouse, Lever, Ashby and Workable boards in the first path segment.
+ */
+export function getCredentialKey(url: string): string | undefined {
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		return undefined;
+	}
+
+	const host = parsed.hostname.toLowerCase().replace(/^www\./, "");
+	const company = parsed.searchParams.get("company");
+	if (/(^|\.)successfactors\.(com|eu)$/.test(host) && company) {
+		return `${host}/${company.toLowerCase()}`;
+	}
+	if (pathTenantHosts.has(host)) {
+		const [segment] = parsed.pathname.split("/").filter(Boolean);
+		// Embedded Greenhouse forms name the board in `for` instead.
+		const tenant =
+			segment === "embed" ? parsed.searchParams.get("for") : segment;
+		if (tenant) {
+			return `${host}/${tenant.toLowerCase()}`;
+		}
+	}
+	return host;
+}
+
+/**
+ * Generates a password that satisfies common ATS rules: at least one upper
+ * and lower case letter, digit and symbol, without look-alike characters.
+ */
+export function generatePassword(length = 20): string {
+	const all = passwordAlphabets.join("");
+	const characters = passwordAlphabets.map(
+		(alphabet) => alphabet[randomInt(alphabet.length)],
+	);
+	while (characters.length < length) {
+		characters.push(all[randomInt(all.length)]);
+	}
+
+	for (let index = characters.length - 1; index > 0; index -= 1) {
+		const swapIndex = randomInt(index + 1);
+		[characters[index], characters[swapIndex]] = [
+			characters[swapIndex],
+			characters[index],
+		];
+	}
+	return characters.join("");
+}
+
+async function readVaultFile(): Promise<VaultFile | undefined> {
+	if (!existsSync(credentialVaultFilePath)) {
+		return undefined;
+	}
+
+	return vaultFileSchema.parse(
+		JSON.parse(await readFile(credentialVaultFilePath, "utf-8")),
+	);
+}
+
+/**
+ * Decrypts the vault. A missing vault is empty; a wrong passphrase fails the
+ * GCM authentication check and throws.
+ */
+export async function readCredentialVault(
+	passphrase: string,
+): Promise<VaultContent> {
+	const file = await readVaultFile();
+	if (!file) {
+		return { credentials: {} };
+	}
+
+	const { salt, name: _name, ...parameters } = file.kdf;
+	const key = await deriveKey(
+		passphrase,
+		Buffer.from(salt, "base64"),
+		parameters,
+	);
+	const decipher = createDecipheriv(
+		"aes-256-gcm",
+		key,
+		Buffer.from(file.iv, "base64"),
+	);
+	decipher.setAuthTag(Buffer.from(file.tag, "base64"));
+
+	let plaintext: string;
+	try {
+		plaintext = Buffer.concat([
+			decipher.update(Buffer.from(file.data, "base64")),
+			decipher.final(),
+		]).toString("utf-8");
+	} catch {
+		throw new Error(
+			`Unable to decrypt ${credentialVaultFilePath}: wrong vault passphrase or corrupted file.`,
+		);
+	}
+
+	return vaultContentSchema.parse(JSON.parse(plaintext));
+}
+
+async function writeCredentialVault(
+	passphrase: string,
+	content: VaultContent,
+): Promise<void> {
+	// Keep the salt so the passphrase stays the same across writes.
+	const existing = await readVaultFile();
+	const salt = existing
+		? Buffer.from(existing.kdf.salt, "base64")
+		: randomBytes(16);
+	const parameters = existing
+		? { N: existing.kdf.N, r: existing.kdf.r, p: existing.kdf.p }
+		: scryptParameters;
+	const key = await deriveKey(passphrase, salt, parameters);
+	const iv = randomBytes(12);
+	const cipher = createCipheriv("aes-256-gcm", key, iv);
+	const data = Buffer.concat([
+		cipher.update(JSON.stringify(content), "utf-8"),
+		cipher.final(),
+	]);
+
+	const file: VaultFile = {
+		version: 1,
+		kdf: { name: "scrypt", salt: salt.toString("base64"), ...parameters },
+		iv: iv.toString("base64"),
+		tag: cipher.getAuthTag().toString("base64"),
+		data: data.toString("base64"),
+	};
+
+	await mkdir(dirname(credentialVaultFilePath), { recursive: true });
+	const tempPath = `${credentialVaultFilePath}.tmp`;
+	await writeFile(tempPath, `${JSON.stringify(file, null, "\t")}\n`, {
+		mode: 0o600,
+	});
+	await rename(tempPath, credentialVaultFilePath);
+}
+
+export async function findCredential(
+	passphrase: string,
+	key: string,
+): Promise<StoredCredential | undefined> {
+	return (await readCredentialVault(passphrase)).credentials[key];
+}
+
+/** Records a login with a stored credential. */
+export async function markCredentialUsed(
+	passphrase: string,
+	key: string,
+): Promise<void> {
+	const vault = await readCredentialVault(passphrase);
+	const credential = vault.credentials[key];
+	if (!credential) {
+		return;
+	}
+
+	credential.lastUsedAt = new Date().toISOString();
+	await writeCredentialVault(passphrase, vault);
+}
+
+export async function saveCredential(
+	passphrase: string,
+	credential: Omit<StoredCredential, "createdAt" | "updatedAt">,
+): Promise<void> {
+	const vault = await readCredentialVault(passphrase);
+	const now = new Date().toISOString();
+	const existing = vault.credentials[credential.key];
+	vault.credentials[credential.key] = {
+		...existing,
+		...credential,
+		createdAt: existing?.createdAt ?? now,
+		updatedAt: now,
+	};
+	await writeCredentialVault(passphrase, vault);
+}
+
+export async function deleteCredential(
+	passphrase: string,
+	key: string,
+): Promise<boolean> {
+	const vault = await readCredentialVault(passphrase);
+	if (!vault.credentials[key]) {
+		return false;
+	}
+
+	delete vault.credentials[key];
+	await writeCredentialVault(passphrase, vault);
+	return true;
+}
@@ -0,0 +1,221 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import z from "zod";
+import { logger } from "../index.js";
+import {
+	type AgentStateType,
+	fillStatusSchema,
+	jobPostingSchema,
+	submissionResultSchema,
+} from "../states/state.js";
+import { envVars } from "../utils/env.js";
+import { readJsonLines } from "../utils/json-lines.js";
+import { getRunUsage } from "../utils/usage.js";
+
+export const historyEventSchema = z.enum([
+	"started",
+	"account_handled",
+	"filled",
+	"review_decision",
+	"submitted",
+	"validation_errors",
+	"skipped",
+	"failed",
+]);
+
+export type HistoryEvent = z.infer<typeof historyEventSchema>;
+
+export const historyEntrySchema = z.object({
+	timestamp: z.string(),
+	threadId: z.string(),
+	event: historyEventSchema,
+	jobUrl: z.string(),
+	normalizedJobUrl: z.string(),
+	company: jobPostingSchema.shape.company,
+	jobTitle: jobPostingSchema.shape.title,
+	location: jobPostingSchema.shape.location,
+	employmentType: jobPostingSchema.shape.employmentType,
+	atsVendor: jobPostingSchema.shape.atsVendor,
+	fillStatus: fillStatusSchema.optional(),
+	submissionResult: submissionResultSchema.optional(),
+	fieldSnapshotPath: z
+		.string()
+		.optional()
+		.describe("Form fields as last reviewed before this event."),
+	detail: z.string().optional(),
+	usage: z
+		.object({
+			inputTokens: z.number(),
+			outputTokens: z.number(),
+			steps: z.number(),
+			costUsd: z.number(),
+		})
+		.optional()
+		.describe("Model usage of the run up to this event."),
+});
+
+export type HistoryEntry = z.infer<typeof historyEntrySchema>;
+
+/**
+ * Latest known state of one application (thread), folded from its events.
+ */
+export type ApplicationRecord = HistoryEntry & {
+	startedAt: string;
+};
+
+export const historyFilePath = join(envVars.DATA_DIR, "history.jsonl");
+
+const trackingQueryParams = [
+	/^utm_/,
+	/^gh_src$/,
+	/^source$/,
+	/^src$/,
+	/^ref$/,
+	/^lever-source/,
+];
+
+export function normalizeJobUrl(jobUrl: string): string {
+	try {
+		const url = new URL(jobUrl);
+		url.hash = "";
+		url.hostname = url.hostname.toLowerCase().replace(/^www\./, "");
+		for (const key of [...url.searchParams.keys()]) {
+			if (trackingQueryParams.some((pattern) => pattern.test(key))) {
+				url.searchParams.delete(key);
+			}
+		}
+		url.searchParams.sort();
+		url.pathname = url.pathname.replace(/\/+$/, "");
+		return url.toString();
+	} catch {
+		return jobUrl.trim();
+	}
+}
+
+function normalizeText(value: string | undefined): string {
+	return value?.trim().toLowerCase().replace(/\s+/g, " ") ?? "";
+}
+
+export async function readHistory(): Promise<HistoryEntry[]> {
+	const entries: HistoryEntry[] = [];
+	for (const value of await readJsonLines(historyFilePath)) {
+		const parsed = historyEntrySchema.safeParse(value);
+		if (parsed.success) {
+			entries.push(parsed.data);
+		}
+	}
+
+	return entries;
+}
+
+export async function appendHistoryEntry(entry: HistoryEntry): Promise<void> {
+	await mkdir(dirname(historyFilePath), { recursive: true });
+	await appendFile(historyFilePath, `${JSON.stringify(entry)}\n`);
+}
+
+/**
+ * Records a ledger event for the current thread, filling the job details from
+ * graph state. Ledger failures are logged and never abort the run.
+ */
+export async function recordHistoryEvent(
+	threadId: string | undefined,
+	state: Partial<AgentStateType>,
+	event: HistoryEvent,
+	fields: Partial<
+		Pick<HistoryEntry, "detail" | "fillStatus" | "submissionResult">
+	> = {},
+): Promise<void> {
+	if (!threadId || !state.jobUrl) {
+		return;
+	}
+
+	try {
+		const usage = (await getRunUsage(threadId)).total;
+		await appendHistoryEntry({
+			timestamp: new Date().toISOString(),
+			threadId,
+			event,
+			jobUrl: state.jobUrl,
+			normalizedJobUrl: normalizeJobUrl(state.jobUrl),
+			company: state.jobPosting?.company,
+			jobTitle: state.jobPosting?.title,
+			location: state.jobPosting?.location,
+			employmentType: state.jobPosting?.employmentType,
+			atsVendor: state.jobPosting?.atsVendor,
+			fillStatus: fields.fillStatus ?? state.fillStatus,
+			submissionResult: fields.submissionResult ?? state.submissionResult,
+			fieldSnapshotPath: state.fieldSnapshotPath,
+			detail: fields.detail,
+			usage: {
+				inputTokens: usage.inputTokens,
+				outputTokens: usage.outputTokens,
+				steps: usage.steps,
+				costUsd: usage.costUsd,
+			},
+		});
+	} catch (error) {
+		logger.warn({ error, event, threadId }, "Failed to write history entry");
+	}
+}
+
+/**
+ * Folds ledger events into one record per thread, carrying forward the
+ * latest job posting details, fill status and submit result.
+ */
+export function summarizeApplications(
+	entries: HistoryEntry[],
+): ApplicationRecord[] {
+	const records = new Map<string, ApplicationRecord>();
+	for (const entry of entries) {
+		const previous = records.get(entry.threadId);
+		records.set(entry.threadId, {
+			...entry,
+			startedAt: previous?.startedAt ?? entry.timestamp,
+			company: entry.company ?? previous?.company,
+			jobTitle: entry.jobTitle ?? previous?.jobTitle,
+			location: entry.location ?? previous?.location,
+			employmentType: entry.employmentType ?? previous?.employmentType,
+			atsVendor: entry.atsVendor ?? previous?.atsVendor,
+			fillStatus: entry.fillStatus ?? previous?.fillStatus,
+			submissionResult: entry.submissionResult ?? previous?.submissionResult,
+			fieldSnapshotPath: entry.fieldSnapshotPath ?? previous?.fieldSnapshotPath,
+			usage: entry.usage ?? previous?.usage,
+		});
+	}
+
+	return [...records.values()];
+}
+
+/**
+ * Finds an earlier submitted application for the same posting, matching by
+ * normalized URL or by company + title.
+ */
+export async function findPreviousSubmission(
+	jobUrl: string,
+	jobPosting: AgentStateType["jobPosting"],
+	currentThreadId?: string,
+): Promise<ApplicationRecord | undefined> {
+	const normalizedJobUrl = normalizeJobUrl(jobUrl);
+	const company = normalizeText(jobPosting?.company);
+	const jobTitle = normalizeText(jobPosting?.title);
+
+	return summarizeApplications(await readHistory()).find((record) => {
+		if (
+			record.threadId === currentThreadId ||
+			!record.submissionResult?.submitted
+		) {
+			return false;
+		}
+
+		if (record.normalizedJobUrl === normalizedJobUrl) {
+			return true;
+		}
+
+		return (
+			company.length > 0 &&
+			jobTitle.length > 0 &&
+			normalizeText(record.company) === company &&
+			normalizeText(record.jobTitle) === jobTitle
+		);
+	});
+}
@@ -0,0 +1,271 @@
+import { EventEmitter } from "node:events";
+import { appendFile, mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { Page } from "@browserbasehq/stagehand";
+import { logger } from "../index.js";
+import { envVars } from "../utils/env.js";
+import { readJsonLines } from "../utils/json-lines.js";
+
+export type RunEventType =
+	| "node"
+	| "step"
+	| "agent_result"
+	| "interrupt"
+	| "interrupt_answer"
+	| "outcome"
+	| "error";
+
+export type RunEvent = {
+	timestamp: string;
+	type: RunEventType;
+	node?: string;
+	step?: string;
+	phase?: "before" | "after";
+	pageUrl?: string;
+	/** Relative to the run directory. */
+	screenshot?: string;
+	/** Relative to the run directory. */
+	domSnapshot?: string;
+	data?: unknown;
+};
+
+const secretKeyPattern =
+	/password|passphrase|secret|api[_-]?key|access[_-]?token|verification[_-]?code/i;
+const maxStringLength = 4000;
+const runtimeSecrets = new Set<string>();
+let artifactSequence = 0;
+
+/**
+ * Emits `("event", threadId, event)` for every recorded run event, masked
+ * like the file, so live views can follow runs without polling the files.
+ */
+export const runEventEmitter = new EventEmitter<{
+	event: [threadId: string, event: RunEvent];
+}>();
+
+export function getRunDirectory(threadId: string): string {
+	return join(envVars.DATA_DIR, "runs", threadId);
+}
+
+function eventsFilePath(threadId: string): string {
+	return join(getRunDirectory(threadId), "events.jsonl");
+}
+
+export function getRunReportPath(threadId: string): string {
+	return join(getRunDirectory(threadId), "report.html");
+}
+
+/**
+ * Registers a value obtained at runtime (e.g. a password typed into an
+ * interrupt) so it is masked wherever it appears in run artifacts.
+ */
+export function registerSecret(value: string | undefined): void {
+	if (value && value.length >= 4) {
+		runtimeSecrets.add(value);
+	}
+}
+
+function maskString(value: string): string {
+	let masked = value;
+	for (const secret of [
+		envVars.AI_API_KEY,
+		envVars.ACCOUNT_PASSWORD,
+		envVars.VAULT_PASSPHRASE,
+		envVars.IMAP_PASSWORD,
+		envVars.SMTP_PASSWORD,
+		...runtimeSecrets,
+	]) {
+		if (secret && secret.length >= 4) {
+			masked = masked.split(secret).join("********");
+		}
+	}
+
+	// Long strings are almost always base64 screenshots inside agent messages.
+	return masked.length > maxStringLength
+		? `${masked.slice(0, maxStringLength)}... [${masked.length - maxStringLength} characters omitted]`
+		: masked;
+}
+
+/**
+ * Masks secrets by key name and by known secret values, and trims very long
+ * strings, so artifacts are safe to share.
+ */
+export function maskSecrets(value: unknown): unknown {
+	if (typeof value === "string") {
+		return maskString(value);
+	}
+
+	if (Array.isArray(value)) {
+		return value.map(maskSecrets);
+	}
+
+	if (value && typeof value === "object") {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, entry]) => [
+				key,
+				secretKeyPattern.test(key) && entry !== undefined && entry !== null
+					? "********"
+					: maskSecrets(entry),
+			]),
+		);
+	}
+
+	return value;
+}
+
+/**
+ * Appends an event to the thread's `events.jsonl`. Artifact failures are
+ * logged and never abort the run.
+ */
+export async function recordRunEvent(
+	threadId: string | undefined,
+	event: Omit<RunEvent, "timestamp">,
+): Promise<void> {
+	if (!threadId) {
+		return;
+	}
+
+	const maskedEvent = maskSecrets({
+		timestamp: new Date().toISOString(),
+		...event,
+	}) as RunEvent;
+	runEventEmitter.emit("event", threadId, maskedEvent);
+	try {
+		await mkdir(getRunDirectory(threadId), { recursive: true });
+		await appendFile(
+			eventsFilePath(threadId),
+			`${JSON.stringify(maskedEvent)}\n`,
+		);
+	} catch (error) {
+		logger.warn({ error, threadId }, "Failed to write run event");
+	}
+}
+
+export async function readRunEvents(threadId: string): Promise<RunEvent[]> {
+	return (await readJsonLines(eventsFilePath(threadId))) as RunEvent[];
+}
+
+/** Absolute path of the thread's most recent screenshot, if any. */
+export async function findLatestScreenshot(
+	threadId: string,
+): Promise<string | undefined> {
+	const screenshot = (await readRunEvents(threadId))
+		.reverse()
+		.find((event) => event.screenshot)?.screenshot;
+	return screenshot && join(getRunDirectory(threadId), screenshot);
+}
+
+async function capturePageState(
+	threadId: string,
+	page: Page,
+	name: string,
+	withDom: boolean,
+): Promise<Pick<RunEvent, "pageUrl" | "screenshot" | "domSnapshot">> {
+	const runDirectory = getRunDirectory(threadId);
+	const pageUrl = page.url();
+	artifactSequence += 1;
+	const fileName = `${Date.now()}-${artifactSequence}-${name}`;
+
+	let screenshot: string | undefined;
+	let domSnapshot: string | undefined;
+	try {
+		screenshot = join("screenshots", `${fileName}.jpg`);
+		await mkdir(join(runDirectory, "screenshots"), { recursive: true });
+		await page.screenshot({
+			path: join(runDirectory, screenshot),
+			type: "jpeg",
+			quality: 70,
+		});
+	} catch (error) {
+		screenshot = undefined;
+		logger.warn({ error, threadId }, "Failed to capture screenshot");
+	}
+
+	if (withDom) {
+		try {
+			domSnapshot = join("dom", `${fileName}.html`);
+			await mkdir(join(runDirectory, "dom"), { recursive: true });
+			const html = await page.evaluate(
+				() => document.documentElement.outerHTML,
+			);
+			await writeFile(join(runDirectory, domSnapshot), html);
+		} catch (error) {
+			domSnapshot = undefined;
+			logger.warn({ error, threadId }, "Failed to capture DOM snapshot");
+		}
+	}
+
+	return { pageUrl, screenshot, domSnapshot };
+}
+
+function slugify(value: string): string {
+	return value
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-|-$/g, "");
+}
+
+/**
+ * Runs one browser step (an `agent.execute` or `stagehand.act` call) between
+ * a screenshot before and a screenshot plus DOM snapshot after, and records
+ * what the step returned.
+ */
+export async function captureStep<T>(
+	options: {
+		threadId: string | undefined;
+		page: Page;
+		node: string;
+		step: string;
+		instruction?: string;
+	},
+	run: () => Promise<T>,
+): Promise<T> {
+	const { threadId, page, node, step } = options;
+	if (!threadId) {
+		return run();
+	}
+
+	const name = slugify(`${node}-${step}`);
+	await recordRunEvent(threadId, {
+		type: "step",
+		node,
+		step,
+		phase: "before",
+		...(await capturePageState(threadId, page, `${name}-before`, false)),
+		data: options.instruction
+			? { instruction: options.instruction }
+			: undefined,
+	});
+
+	let result: T;
+	try {
+		result = await run();
+	} catch (error) {
+		await recordRunEvent(threadId, {
+			type: "error",
+			node,
+			step,
+			data: { message: error instanceof Error ? error.message : String(error) },
+		});
+		throw error;
+	}
+
+	await recordRunEvent(threadId, {
+		type: "step",
+		node,
+		step,
+		phase: "after",
+		...(await capturePageState(threadId, page, `${name}-after`, true)),
+	});
+
+	const { success, message, completed, actions, messages, output, usage } =
+		(result ?? {}) as Record<string, unknown>;
+	await recordRunEvent(threadId, {
+		type: "agent_result",
+		node,
+		step,
+		data: { success, message, completed, output, actions, messages, usage },
+	});
+
+	return result;
+}
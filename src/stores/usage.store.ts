@@ -0,0 +1,64 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import z from "zod";
+import { logger } from "../index.js";
+import { readJsonLines } from "../utils/json-lines.js";
+import { getRunDirectory } from "./run-artifacts.store.js";
+
+export const usageRecordSchema = z.object({
+	timestamp: z.string(),
+	node: z.string().optional(),
+	task: z
+		.string()
+		.optional()
+		.describe(
+			"LangGraph task that made the call; a task replayed after an interrupt keeps its ID.",
+		),
+	model: z.string(),
+	source: z.enum(["llm", "browser"]),
+	inputTokens: z.number().nonnegative().default(0),
+	outputTokens: z.number().nonnegative().default(0),
+	steps: z
+		.number()
+		.int()
+		.nonnegative()
+		.default(0)
+		.describe("Browser actions taken by the call."),
+});
+
+export type UsageRecord = z.infer<typeof usageRecordSchema>;
+
+function usageFilePath(threadId: string): string {
+	return join(getRunDirectory(threadId), "usage.jsonl");
+}
+
+/**
+ * Appends one model call to the thread's `usage.jsonl`. Failures are logged
+ * and never abort the run.
+ */
+export async function recordUsage(
+	threadId: string,
+	record: Omit<UsageRecord, "timestamp">,
+): Promise<void> {
+	try {
+		await mkdir(getRunDirectory(threadId), { recursive: true });
+		await appendFile(
+			usageFilePath(threadId),
+			`${JSON.stringify({ timestamp: new Date().toISOString(), ...record })}\n`,
+		);
+	} catch (error) {
+		logger.warn({ error, threadId }, "Failed to write usage record");
+	}
+}
+
+export async function readUsage(threadId: string): Promise<UsageRecord[]> {
+	const records: UsageRecord[] = [];
+	for (const value of await readJsonLines(usageFilePath(threadId))) {
+		const parsed = usageRecordSchema.safeParse(value);
+		if (parsed.success) {
+			records.push(parsed.data);
+		}
+	}
+
+	return records;
+}
@@ -0,0 +1,56 @@
+import { type Stagehand, tool } from "@browserbasehq/stagehand";
+import z from "zod";
+import { logger } from "../index.js";
+import type { FormPage } from "../states/state.js";
+import { captureFormPage } from "../utils/field-snapshot.js";
+
+type RecordPageFieldsToolOptions = {
+	stagehand: Stagehand;
+	onRecord: (page: FormPage) => void;
+};
+
+const recordPageFieldsInputSchema = z.object({
+	pageTitle: z
+		.string()
+		.optional()
+		.describe("Heading or step name of the form page, e.g. 'My Experience'."),
+});
+
+/**
+ * Lets the agent record the fields of each form page before it moves on, so
+ * the submission review covers pages that are no longer on screen.
+ */
+export function createRecordPageFieldsTool({
+	stagehand,
+	onRecord,
+}: RecordPageFieldsToolOptions) {
+	return tool({
+		description:
+			"Record the fields of the current application form page for the applicant's review. Call it once you have filled a page, right before going to the next page of the form.",
+		inputSchema: recordPageFieldsInputSchema,
+		execute: async ({
+			pageTitle,
+		}: z.infer<typeof recordPageFieldsInputSchema>) => {
+			try {
+				const formPage = await captureFormPage(stagehand);
+				onRecord(formPage);
+				logger.info(
+					{
+						pageTitle,
+						pageUrl: formPage.pageUrl,
+						fieldCount: formPage.fields.length,
+					},
+					"Recorded form page fields.",
+				);
+				return { recorded: true, fieldCount: formPage.fields.length };
+			} catch (error) {
+				logger.warn({ error, pageTitle }, "Unable to record form page fields.");
+				// Not a failed step: replaying cached actions should not stop here.
+				return {
+					recorded: false,
+					message: "The page could not be recorded. Continue filling the form.",
+				};
+			}
+		},
+	});
+}
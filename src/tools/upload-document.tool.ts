@@ -0,0 +1,143 @@
+import { constants } from "node:fs";
+import { access } from "node:fs/promises";
+import { resolve } from "node:path";
+import { tool } from "@browserbasehq/stagehand";
+import z from "zod";
+import { logger } from "../index.js";
+import type { ApplicantDocument } from "../states/state.js";
+import { selectDocumentForInput } from "../utils/documents.js";
+
+type FileInputLocator = {
+	count: () => Promise<number>;
+	setInputFiles: (files: string | string[]) => Promise<void>;
+};
+
+type StagehandPageLike = {
+	url: () => string;
+	locator: (selector: string) => {
+		first: () => FileInputLocator;
+	};
+	evaluate: <R, Arg>(
+		pageFunction: (arg: Arg) => R | Promise<R>,
+		arg?: Arg,
+	) => Promise<R>;
+};
+
+type UploadDocumentToolOptions = {
+	page: StagehandPageLike;
+	documents: ApplicantDocument[];
+};
+
+const uploadDocumentInputSchema = z.object({
+	selector: z
+		.string()
+		.describe(
+			"CSS selector for the file input element that should receive the document.",
+		),
+	fieldLabel: z
+		.string()
+		.describe(
+			"Label or nearby text of the file input as shown on the page, e.g. 'Resume/CV' or 'Unofficial transcript'.",
+		),
+	documentLabel: z
+		.string()
+		.optional()
+		.describe(
+			"Label of the applicant document to upload. If omitted, the best match for the field is used.",
+		),
+	timeoutMs: z
+		.number()
+		.int()
+		.positive()
+		.default(10000)
+		.describe("Maximum wait time for the file input to appear."),
+});
+
+type UploadDocumentToolInput = z.infer<typeof uploadDocumentInputSchema>;
+
+function readAcceptAttribute(selector: string): string {
+	const element = selector.startsWith("xpath=")
+		? document.evaluate(
+				selector.slice("xpath=".length),
+				document,
+				null,
+				XPathResult.FIRST_ORDERED_NODE_TYPE,
+				null,
+			).singleNodeValue
+		: document.querySelector(selector);
+
+	return element instanceof HTMLInputElement ? element.accept : "";
+}
+
+export function createUploadDocumentTool({
+	page,
+	documents,
+}: UploadDocumentToolOptions) {
+	const availableDocuments = documents
+		.map((document) => `"${document.label}" (${document.kind ?? "other"})`)
+		.join(", ");
+
+	return tool({
+		description: `Upload one of the applicant's documents to a file input on the current application page. Available documents: ${availableDocuments}. Call it once per file input.`,
+		inputSchema: uploadDocumentInputSchema,
+		execute: async ({
+			selector,
+			fieldLabel,
+			documentLabel,
+			timeoutMs,
+		}: UploadDocumentToolInput) => {
+			const startedAt = Date.now();
+			const fileInput = page.locator(selector).first();
+			let elementCount = await fileInput.count();
+			while (elementCount < 1 && Date.now() - startedAt < timeoutMs) {
+				await new Promise((resolveDelay) => {
+					setTimeout(resolveDelay, 200);
+				});
+				elementCount = await fileInput.count();
+			}
+
+			if (elementCount < 1) {
+				return {
+					success: false,
+					message: "No file input found for the provided selector.",
+					selector,
+				};
+			}
+
+			const accept = await page.evaluate(readAcceptAttribute, selector);
+			const document = selectDocumentForInput(documents, {
+				fieldLabel,
+				documentLabel,
+				accept,
+			});
+			if (!document) {
+				return {
+					success: false,
+					message: `No applicant document matches this field and its accepted types (${accept || "any"}). Available documents: ${availableDocuments}. Treat this field as missing information if it is required.`,
+					selector,
+				};
+			}
+
+			const resolvedPath = resolve(document.path);
+			await access(resolvedPath, constants.R_OK);
+			await fileInput.setInputFiles(resolvedPath);
+			logger.info(
+				{
+					selector,
+					fieldLabel,
+					documentLabel: document.label,
+					filePath: resolvedPath,
+					pageUrl: page.url(),
+				},
+				"Uploaded document using custom upload tool.",
+			);
+
+			return {
+				success: true,
+				selector,
+				documentLabel: document.label,
+				filePath: resolvedPath,
+			};
+		},
+	});
+}
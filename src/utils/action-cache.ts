@@ -0,0 +1,470 @@
+import { createHash } from "node:crypto";
+import type {
+	ActResult,
+	AgentResult,
+	Page,
+	Stagehand,
+} from "@browserbasehq/stagehand";
+import { logger } from "../index.js";
+import {
+	type CachedStep,
+	cachedStepSchema,
+	getCachedActions,
+	recordCacheHit,
+	saveCachedActions,
+} from "../stores/action-cache.store.js";
+import { getCredentialKey } from "../stores/credential-vault.store.js";
+import { getDefaultModelSettings } from "./model-provider.js";
+import { getUsageContext, trackStagehandUsage } from "./usage.js";
+
+/** A custom agent tool, as given to `stagehand.agent({ tools })`. */
+type ReplayTool = {
+	execute?(
+		input: Record<string, unknown>,
+		options: { toolCallId: string; messages: never[] },
+	): unknown;
+};
+
+export type ActionCacheTarget = {
+	stagehand: Stagehand;
+	page: Page;
+	/** What the call does, e.g. "fill form"; part of the cache key. */
+	step: string;
+	/** Vendor of the ATS adapter; part of the cache key. */
+	ats?: string;
+	/**
+	 * Applicant values the call may type, by name. Typed values are cached as
+	 * `%name%` placeholders and filled in again on replay.
+	 */
+	variables?: Record<string, string>;
+	/** Off for runs started with `--no-cache`. */
+	enabled: boolean;
+	/** Custom agent tools, so their calls can be replayed too. */
+	tools?: Record<string, ReplayTool>;
+	/**
+	 * Off for steps that must not run twice, like the submit click: a failed
+	 * replay is thrown instead of running the model after it.
+	 */
+	rerunAfterReplay?: boolean;
+};
+
+// Agent steps that only read the page; replay leaves them out.
+const readOnlyAgentSteps = new Set([
+	"ariaTree",
+	"screenshot",
+	"extract",
+	"think",
+	"search",
+	"scroll",
+	"done",
+	"close",
+	// Its actions follow as separate `act` steps.
+	"fillForm",
+]);
+
+// Act methods whose arguments are typed into the page.
+const typingMethods = new Set(["fill", "type"]);
+
+const placeholderPattern = /%([\w.-]+)%/g;
+
+// Variable values shorter than this match too much unrelated text.
+const minVariableLength = 3;
+
+// Keys the agent adds to every step next to the tool's own arguments.
+const agentStepKeys = new Set([
+	"type",
+	"reasoning",
+	"taskCompleted",
+	"action",
+	"timeMs",
+	"pageText",
+	"pageUrl",
+	"instruction",
+]);
+
+/**
+ * Hashes the form controls of the page, so the same step on another posting
+ * of the same portal shares the entry while a changed form does not.
+ */
+async function readPageStructure(page: Page): Promise<string> {
+	const controls = await page.evaluate(() =>
+		Array.from(
+			document.querySelectorAll(
+				"input, select, textarea, button, [role='button']",
+			),
+			(element) =>
+				[
+					element.tagName.toLowerCase(),
+					element.getAttribute("type") ?? "",
+					element.getAttribute("name") ?? "",
+					element.getAttribute("role") ?? "",
+				].join(":"),
+		),
+	);
+	return createHash("sha256")
+		.update([...new Set(controls)].sort().join("\n"))
+		.digest("hex")
+		.slice(0, 16);
+}
+
+function buildCacheKey(
+	ats: string,
+	tenant: string,
+	step: string,
+	structure: string,
+): string {
+	return createHash("sha256")
+		.update(`${ats}\n${tenant}\n${step}\n${structure}`)
+		.digest("hex")
+		.slice(0, 24);
+}
+
+async function readCacheLocation(
+	page: Page,
+	target: Pick<ActionCacheTarget, "step" | "ats">,
+): Promise<{ key: string; domain: string; tenant: string; structure: string }> {
+	const domain = new URL(page.url()).hostname;
+	const tenant = getCredentialKey(page.url()) ?? domain;
+	const structure = await readPageStructure(page);
+	return {
+		key: buildCacheKey(target.ats ?? "none", tenant, target.step, structure),
+		domain,
+		tenant,
+		structure,
+	};
+}
+
+/**
+ * Flattens applicant data into cache variables named by their path, e.g.
+ * `profile.contact.email`.
+ */
+export function toCacheVariables(
+	values: Record<string, unknown>,
+): Record<string, string> {
+	const variables: Record<string, string> = {};
+	const visit = (value: unknown, path: string) => {
+		if (typeof value === "string" || typeof value === "number") {
+			const text = String(value).trim();
+			if (text.length >= minVariableLength) {
+				variables[path] = text;
+			}
+		} else if (value && typeof value === "object") {
+			for (const [key, child] of Object.entries(value)) {
+				visit(child, path ? `${path}.${key}` : key);
+			}
+		}
+	};
+	visit(values, "");
+	return variables;
+}
+
+/** Replaces applicant values in the text with their placeholders. */
+function toTemplate(text: string, variables: Record<string, string>): string {
+	// Longest first, so a full address wins over the city inside it.
+	return Object.entries(variables)
+		.sort(([, a], [, b]) => b.length - a.length)
+		.reduce(
+			(template, [name, value]) => template.split(value).join(`%${name}%`),
+			text,
+		);
+}
+
+/** Whether nothing but placeholders, spaces and punctuation is left. */
+function isFullyTemplated(template: string): boolean {
+	return /^[\s\p{P}]*$/u.test(template.replace(placeholderPattern, ""));
+}
+
+function fillTemplate(template: string, variables: Record<string, string>) {
+	return template.replace(placeholderPattern, (placeholder, name: string) => {
+		const value = variables[name];
+		if (value === undefined) {
+			throw new Error(`No value for cached placeholder ${placeholder}.`);
+		}
+		return value;
+	});
+}
+
+/**
+ * Swaps the applicant values in steps for placeholders. Returns `undefined`
+ * when a step types text that is not a known variable (a free-text answer),
+ * since it could neither be stored nor replayed for another posting.
+ */
+function toTemplatedSteps(
+	steps: CachedStep[],
+	variables: Record<string, string>,
+): CachedStep[] | undefined {
+	const templated: CachedStep[] = [];
+	for (const step of steps) {
+		if (step.type === "act") {
+			const typing = typingMethods.has(step.action.method ?? "");
+			const args = step.action.arguments?.map((argument) =>
+				toTemplate(argument, variables),
+			);
+			if (typing && args?.some((argument) => !isFullyTemplated(argument))) {
+				return undefined;
+			}
+			templated.push({
+				type: "act",
+				action: {
+					...step.action,
+					description: toTemplate(step.action.description, variables),
+					arguments: args,
+				},
+			});
+		} else if (step.type === "keys" && step.method === "type") {
+			const value = toTemplate(step.value, variables);
+			if (!isFullyTemplated(value)) {
+				return undefined;
+			}
+			templated.push({ ...step, value });
+		} else {
+			templated.push(step);
+		}
+	}
+
+	return templated;
+}
+
+// JSON escapes quotes and newlines, so results match values in that form.
+function escapeVariables(
+	variables: Record<string, string>,
+): Record<string, string> {
+	return Object.fromEntries(
+		Object.entries(variables).map(([name, value]) => [
+			name,
+			JSON.stringify(value).slice(1, -1),
+		]),
+	);
+}
+
+function toTemplatedResult(
+	result: Record<string, unknown>,
+	variables: Record<string, string>,
+): Record<string, unknown> {
+	return JSON.parse(
+		toTemplate(JSON.stringify(result), escapeVariables(variables)),
+	);
+}
+
+function fillResultTemplate(
+	result: Record<string, unknown>,
+	variables: Record<string, string>,
+): Record<string, unknown> {
+	return JSON.parse(
+		fillTemplate(JSON.stringify(result), escapeVariables(variables)),
+	);
+}
+
+/**
+ * Turns the actions of an `act` or agent result into replayable steps.
+ * Returns `undefined` when a step cannot be replayed without the model,
+ * e.g. an agent click at screen coordinates.
+ */
+function toCachedSteps(
+	actions: unknown[],
+	tools: Record<string, ReplayTool>,
+): CachedStep[] | undefined {
+	const steps: CachedStep[] = [];
+	for (const action of actions) {
+		const { type, playwrightArguments, ...rest } = action as Record<
+			string,
+			unknown
+		>;
+		// `act` results list Stagehand actions; agent results wrap them.
+		const act = cachedStepSchema.safeParse({
+			type: "act",
+			action: type === undefined ? action : playwrightArguments,
+		});
+		if (act.success) {
+			steps.push(act.data);
+			continue;
+		}
+
+		const name = String(type);
+		if (readOnlyAgentSteps.has(name) || name === "act") {
+			continue;
+		}
+		if (tools[name]) {
+			steps.push({
+				type: "tool",
+				name,
+				args: Object.fromEntries(
+					Object.entries(rest).filter(([key]) => !agentStepKeys.has(key)),
+				),
+			});
+			continue;
+		}
+
+		const step = cachedStepSchema.safeParse({ type: name, ...rest });
+		if (!step.success) {
+			return undefined;
+		}
+		steps.push(step.data);
+	}
+
+	return steps;
+}
+
+/**
+ * Replays cached steps. Stagehand heals an `act` step whose selector no
+ * longer matches by asking the model for the element again; the healed
+ * steps are returned so the entry can be updated.
+ */
+async function replaySteps(
+	target: ActionCacheTarget,
+	steps: CachedStep[],
+): Promise<{ actions: CachedStep[]; healed: boolean }> {
+	const { stagehand, page, tools = {}, variables = {} } = target;
+	const replayed: CachedStep[] = [];
+	let healed = false;
+	for (const step of steps) {
+		switch (step.type) {
+			case "act": {
+				const action = {
+					...step.action,
+					arguments: step.action.arguments?.map((argument) =>
+						fillTemplate(argument, variables),
+					),
+				};
+				const result = await stagehand.act(action);
+				if (!result.success) {
+					throw new Error(result.message);
+				}
+				const resolved = result.actions[0] ?? action;
+				healed ||= resolved.selector !== step.action.selector;
+				replayed.push({ type: "act", action: resolved });
+				continue;
+			}
+			case "goto":
+				await page.goto(step.url);
+				break;
+			case "navback":
+				await page.goBack();
+				break;
+			case "wait":
+				await page.waitForTimeout(step.timeMs);
+				break;
+			case "keys": {
+				const value = fillTemplate(step.value, variables);
+				for (let index = 0; index < step.times; index += 1) {
+					await (step.method === "type"
+						? page.type(value)
+						: page.keyPress(value));
+				}
+				break;
+			}
+			case "tool": {
+				const tool = tools[step.name];
+				if (!tool?.execute) {
+					throw new Error(`Tool ${step.name} is not available for replay.`);
+				}
+				const result = (await tool.execute(step.args, {
+					toolCallId: "action-cache-replay",
+					messages: [],
+				})) as { success?: boolean; message?: string } | undefined;
+				if (result?.success === false) {
+					throw new Error(result.message ?? `${step.name} failed.`);
+				}
+				break;
+			}
+		}
+		replayed.push(step);
+	}
+
+	return { actions: replayed, healed };
+}
+
+/**
+ * Runs an `act` or agent call through the action cache. Steps cached for the
+ * same ATS tenant, step and page structure are replayed without asking the
+ * model, so other postings of the tenant reuse them; when they no longer
+ * work, `run` goes ahead and its actions replace the entry. Cache problems
+ * never fail the call.
+ */
+export async function runWithActionCache<T extends ActResult | AgentResult>(
+	target: ActionCacheTarget,
+	run: () => Promise<T>,
+): Promise<T> {
+	if (!target.enabled) {
+		return run();
+	}
+
+	const { node } = getUsageContext();
+	const variables = target.variables ?? {};
+	const location = await readCacheLocation(target.page, target).catch(
+		(error) => {
+			logger.debug({ node, error }, "Page cannot be cached.");
+			return undefined;
+		},
+	);
+	if (!location) {
+		return run();
+	}
+	const { key, domain, tenant, structure } = location;
+
+	const cached = await getCachedActions(key).catch(() => undefined);
+	if (cached) {
+		try {
+			// Healing a selector calls the default model.
+			const { actions, healed } = await trackStagehandUsage(
+				getDefaultModelSettings().modelName,
+				() => replaySteps(target, cached.steps),
+			);
+			const result = fillResultTemplate(cached.result, variables);
+			logger.info(
+				{ node, tenant, key, steps: actions.length, healed },
+				"Replayed cached browser actions.",
+			);
+			await recordCacheHit(
+				key,
+				healed ? toTemplatedSteps(actions, variables) : undefined,
+			).catch((error) =>
+				logger.warn({ error, key }, "Failed to update the action cache"),
+			);
+			return { ...result, actions } as unknown as T;
+		} catch (error) {
+			if (target.rerunAfterReplay === false) {
+				throw error;
+			}
+			logger.warn(
+				{ node, tenant, key, error },
+				"Cached browser actions no longer work, running the model instead.",
+			);
+		}
+	}
+
+	const result = await run();
+	const recorded = result.success
+		? toCachedSteps(result.actions, target.tools ?? {})
+		: undefined;
+	const steps = recorded && toTemplatedSteps(recorded, variables);
+	if (recorded && !steps) {
+		logger.debug(
+			{ node, tenant, key },
+			"Not caching browser actions that type values other than the applicant's profile.",
+		);
+	}
+	if (steps && steps.length > 0) {
+		const {
+			actions: _actions,
+			usage: _usage,
+			messages: _messages,
+			cacheStatus: _cacheStatus,
+			...stored
+		} = result as unknown as Record<string, unknown>;
+		await saveCachedActions(key, {
+			domain,
+			tenant,
+			ats: target.ats,
+			step: target.step,
+			structure,
+			node,
+			steps,
+			result: toTemplatedResult(stored, variables),
+		}).catch((error) =>
+			logger.warn({ error, key }, "Failed to update the action cache"),
+		);
+	}
+
+	return result;
+}
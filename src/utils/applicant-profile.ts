@@ -0,0 +1,82 @@
+import { existsSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { basename, dirname, extname, join } from "node:path";
+import z from "zod";
+import {
+	type ApplicantProfile,
+	applicantProfileSchema,
+} from "../states/state.js";
+import { envVars } from "./env.js";
+import { getStructuredModel } from "./instances.js";
+
+export function getDefaultProfilePath(resumePath: string): string {
+	const resumeName = basename(resumePath, extname(resumePath));
+	return join(envVars.DATA_DIR, "profiles", `${resumeName}.profile.json`);
+}
+
+/**
+ * Loads a previously extracted (and possibly hand-corrected) profile. Returns
+ * `undefined` when the file does not exist yet.
+ */
+export async function loadApplicantProfile(
+	profilePath: string,
+): Promise<ApplicantProfile | undefined> {
+	if (!existsSync(profilePath)) {
+		return undefined;
+	}
+
+	const parsed = applicantProfileSchema.safeParse(
+		JSON.parse(await readFile(profilePath, "utf-8")),
+	);
+	if (!parsed.success) {
+		throw new Error(
+			`Applicant profile at ${profilePath} is invalid, fix it or rerun with --refresh-profile:\n${z.prettifyError(parsed.error)}`,
+		);
+	}
+
+	return parsed.data;
+}
+
+export async function saveApplicantProfile(
+	profilePath: string,
+	profile: ApplicantProfile,
+): Promise<void> {
+	await mkdir(dirname(profilePath), { recursive: true });
+	await writeFile(profilePath, `${JSON.stringify(profile, null, "\t")}\n`);
+}
+
+export async function extractApplicantProfile(
+	resumeText: string,
+): Promise<ApplicantProfile> {
+	const model = await getStructuredModel(applicantProfileSchema);
+	const profile = await model.invoke([
+		{
+			role: "system",
+			content:
+				"You extract structured applicant profiles from resumes. Only use facts stated in the resume. Leave fields out when the resume does not state them. Normalize dates to YYYY-MM and phone numbers to E.164.",
+		},
+		{
+			role: "user",
+			content: `Resume:\n${resumeText}`,
+		},
+	]);
+
+	return applicantProfileSchema.parse(profile);
+}
+
+/**
+ * Renders the profile for fill prompts together with the formatting rules
+ * that keep answers consistent across applications.
+ */
+export function formatApplicantProfile(profile: ApplicantProfile): string {
+	return `
+Applicant profile (authoritative, use these values verbatim):
+${JSON.stringify(profile, null, 2)}
+
+Formatting rules:
+- Dates are stored as YYYY-MM. Convert them to the format each date field expects (e.g. MM/YYYY, a month + year dropdown pair); never invent a day unless the field requires one, then use the 1st.
+- The phone number is stored in E.164. When a form has a separate country code field, put the country code there and the national number in the phone field.
+- Use the address components as stored, with the region spelled out unless the field only accepts an abbreviation.
+- For a current position, leave the end date empty or tick the "I currently work here" option.
+`.trim();
+}
@@ -0,0 +1,104 @@
+import { mkdirSync } from "node:fs";
+import { join } from "node:path";
+import type { LocalBrowserLaunchOptions } from "@browserbasehq/stagehand";
+import { InvalidArgumentError } from "commander";
+import { appConfig, type BrowserConfig, viewportSchema } from "./config.js";
+import { envVars } from "./env.js";
+
+export type BrowserOverrides = Partial<BrowserConfig>;
+
+export function getBrowserProfileDirectory(profile: string): string {
+	return join(envVars.DATA_DIR, "browser-profiles", profile);
+}
+
+/**
+ * Accepts either a DevTools websocket URL or the HTTP debugging endpoint
+ * Chrome prints for `--remote-debugging-port`, which Stagehand cannot attach
+ * to directly.
+ */
+async function resolveCdpWebSocketUrl(cdpUrl: string): Promise<string> {
+	if (/^wss?:\/\//.test(cdpUrl)) {
+		return cdpUrl;
+	}
+
+	const versionUrl = new URL("/json/version", cdpUrl);
+	let response: Response;
+	try {
+		response = await fetch(versionUrl);
+	} catch (error) {
+		throw new Error(
+			`Unable to reach Chrome at ${cdpUrl} (${error instanceof Error ? error.message : String(error)}). Start it with --remote-debugging-port and try again.`,
+		);
+	}
+	if (!response.ok) {
+		throw new Error(
+			`Chrome at ${cdpUrl} answered ${response.status} for ${versionUrl.pathname}.`,
+		);
+	}
+
+	const { webSocketDebuggerUrl } = (await response.json()) as {
+		webSocketDebuggerUrl?: string;
+	};
+	if (!webSocketDebuggerUrl) {
+		throw new Error(`Chrome at ${cdpUrl} did not report a websocket URL.`);
+	}
+	return webSocketDebuggerUrl;
+}
+
+/**
+ * Builds Stagehand's local browser options from the `browser` config
+ * section and CLI overrides. Attaching over CDP ignores the launch-only
+ * settings (headless, profile).
+ */
+export async function resolveBrowserLaunchOptions(
+	overrides: BrowserOverrides,
+): Promise<LocalBrowserLaunchOptions> {
+	const settings = { ...appConfig.browser };
+	for (const [key, value] of Object.entries(overrides)) {
+		if (value !== undefined) {
+			Object.assign(settings, { [key]: value });
+		}
+	}
+
+	if (settings.cdpUrl) {
+		return {
+			cdpUrl: await resolveCdpWebSocketUrl(settings.cdpUrl),
+			viewport: settings.viewport,
+		};
+	}
+
+	let userDataDir: string | undefined;
+	if (settings.profile) {
+		userDataDir = getBrowserProfileDirectory(settings.profile);
+		mkdirSync(userDataDir, { recursive: true });
+	}
+
+	return {
+		headless: settings.headless,
+		viewport: settings.viewport,
+		userDataDir,
+		preserveUserDataDir: userDataDir !== undefined,
+	};
+}
+
+export function parseViewportOption(
+	value: string,
+): NonNullable<BrowserConfig["viewport"]> {
+	const [width, height] = value.toLowerCase().split("x").map(Number);
+	const parsed = viewportSchema.safeParse({ width, height });
+	if (!parsed.success) {
+		throw new InvalidArgumentError(
+			`Invalid viewport: ${value}, expected WIDTHxHEIGHT such as 1440x900`,
+		);
+	}
+	return parsed.data;
+}
+
+export function parseBrowserProfileOption(value: string): string {
+	if (!/^[\w.-]+$/.test(value)) {
+		throw new InvalidArgumentError(
+			`Invalid browser profile: ${value}, use letters, digits, '.', '_' or '-'`,
+		);
+	}
+	return value;
+}
@@ -0,0 +1,230 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { Command, END, type GraphNode, interrupt } from "@langchain/langgraph";
+import { InvalidArgumentError } from "commander";
+import { logger } from "../index.js";
+import type { NodeName } from "../nodes/node.types.js";
+import type { AgentStateType, Budget } from "../states/state.js";
+import { recordHistoryEvent } from "../stores/history.store.js";
+import { appConfig } from "./config.js";
+import { describeJobPosting } from "./job-posting.js";
+import { getThreadId } from "./thread.js";
+import {
+	getRunUsage,
+	getUsageContext,
+	type UsageTotals,
+	warnUnpricedModels,
+} from "./usage.js";
+
+export type BudgetLimit = keyof Budget;
+
+export type BudgetOverrun = {
+	limit: BudgetLimit;
+	used: number;
+	max: number;
+};
+
+type BudgetDecision =
+	| string
+	| { type?: string; action?: string; limit?: number | string };
+
+const limitLabels: Record<BudgetLimit, string> = {
+	maxCostUsd: "cost (USD)",
+	maxSteps: "browser steps",
+	maxReviewRounds: "review rounds",
+};
+
+export function parseCostOption(value: string): number {
+	const cost = Number(value);
+	if (!Number.isFinite(cost) || cost <= 0) {
+		throw new InvalidArgumentError(
+			`Invalid cost: ${value}, expected a positive number of USD`,
+		);
+	}
+	return cost;
+}
+
+export function parseCountOption(value: string): number {
+	const count = Number(value);
+	if (!Number.isInteger(count) || count <= 0) {
+		throw new InvalidArgumentError(
+			`Invalid count: ${value}, expected a positive whole number`,
+		);
+	}
+	return count;
+}
+
+/**
+ * Applies CLI limits over the `budgets` config section.
+ */
+export function resolveBudget(overrides: Budget): Budget {
+	return {
+		maxCostUsd: overrides.maxCostUsd ?? appConfig.budgets.maxCostUsd,
+		maxSteps: overrides.maxSteps ?? appConfig.budgets.maxSteps,
+		maxReviewRounds:
+			overrides.maxReviewRounds ?? appConfig.budgets.maxReviewRounds,
+	};
+}
+
+export function findBudgetOverrun(
+	budget: Budget,
+	usage: UsageTotals,
+	reviewRoundsUsed?: number,
+): BudgetOverrun | undefined {
+	const checks: [BudgetLimit, number | undefined][] = [
+		["maxCostUsd", usage.costUsd],
+		["maxSteps", usage.steps],
+		["maxReviewRounds", reviewRoundsUsed],
+	];
+	for (const [limit, used] of checks) {
+		const max = budget[limit];
+		if (max !== undefined && used !== undefined && used >= max) {
+			return { limit, used, max };
+		}
+	}
+
+	return undefined;
+}
+
+export function describeBudgetOverrun(overrun: BudgetOverrun): string {
+	const format = (value: number) =>
+		overrun.limit === "maxCostUsd" ? `$${value.toFixed(2)}` : String(value);
+	return `Used ${format(overrun.used)} of the ${format(overrun.max)} ${limitLabels[overrun.limit]} budget.`;
+}
+
+/**
+ * A new value for the limit that was reached, or `undefined` to drop it.
+ * Numbers at or under what is already used are ignored.
+ */
+function parseRaisedLimit(
+	decision: Exclude<BudgetDecision, string>,
+	overrun: BudgetOverrun,
+): number | undefined {
+	const limit = Number(decision.limit);
+	return decision.limit !== undefined &&
+		Number.isFinite(limit) &&
+		limit > overrun.used
+		? limit
+		: undefined;
+}
+
+/**
+ * Checks the run's budget at the start of a node. Whenever a limit is
+ * reached it raises a `budget_exceeded` interrupt, which either stops the
+ * run (`stopReason`) or continues it with that limit raised or dropped.
+ * Usage of the current task is left out, so the checks come out the same
+ * when the node is replayed after a later interrupt.
+ */
+async function enforceBudget(
+	state: AgentStateType,
+	options: { reviewRoundsUsed?: number },
+): Promise<{ budget: Budget; stopReason?: string }> {
+	const { threadId, task } = getUsageContext();
+	// Runs started without limits still get the config defaults.
+	let budget = state.budget ?? resolveBudget({});
+	if (!threadId) {
+		return { budget };
+	}
+
+	const usage = await getRunUsage(threadId, { excludeTask: task });
+	if (budget.maxCostUsd !== undefined) {
+		warnUnpricedModels(usage);
+	}
+
+	let overrun = findBudgetOverrun(
+		budget,
+		usage.total,
+		options.reviewRoundsUsed,
+	);
+	while (overrun) {
+		const reason = describeBudgetOverrun(overrun);
+		logger.info(
+			{ ...overrun },
+			"Run budget reached. Waiting for user decision via interrupt.",
+		);
+
+		const decision: BudgetDecision = interrupt({
+			type: "budget_exceeded",
+			message:
+				"A run budget was reached. Stop the run, continue without this limit, or give a higher limit.",
+			reason,
+			job: describeJobPosting(state.jobPosting),
+			jobUrl: state.jobUrl,
+			budget: { ...overrun, usage: usage.total },
+		});
+
+		const parsed =
+			typeof decision === "string" ? { action: decision } : decision;
+		if (parsed.action?.trim().toLowerCase() !== "continue") {
+			return { budget, stopReason: `Stopped at the run budget: ${reason}` };
+		}
+
+		budget = { ...budget, [overrun.limit]: parseRaisedLimit(parsed, overrun) };
+		logger.info(
+			{ limit: overrun.limit, max: budget[overrun.limit] ?? "none" },
+			"Continuing past the run budget.",
+		);
+		overrun = findBudgetOverrun(budget, usage.total, options.reviewRoundsUsed);
+	}
+
+	return { budget };
+}
+
+/**
+ * Checks the budget between the model calls of a node, counting the node's
+ * own usage too. Returns the limit already used up, if any, and the browser
+ * steps left for the next call. Nothing is asked here: the node wraps up and
+ * the next node's check raises the `budget_exceeded` interrupt, which keeps
+ * the interrupts of a replayed node in the same order.
+ */
+export async function readRemainingBudget(
+	state: AgentStateType,
+): Promise<{ overrun?: BudgetOverrun; steps?: number }> {
+	const { threadId } = getUsageContext();
+	const budget = state.budget ?? resolveBudget({});
+	if (!threadId) {
+		return {};
+	}
+
+	const { total } = await getRunUsage(threadId);
+	return {
+		overrun: findBudgetOverrun(budget, total),
+		steps:
+			budget.maxSteps === undefined
+				? undefined
+				: Math.max(budget.maxSteps - total.steps, 0),
+	};
+}
+
+/**
+ * Runs the budget check before the node and carries the budget, as raised
+ * or dropped at the interrupt, into the node's update. Stopping at the
+ * budget skips the application.
+ */
+export function withBudgetCheck(
+	node: GraphNode<AgentStateType, RunnableConfig, NodeName>,
+	options: { reviewRoundsUsed?: (state: AgentStateType) => number } = {},
+): GraphNode<AgentStateType, RunnableConfig, NodeName> {
+	return async (state, config) => {
+		const { budget, stopReason } = await enforceBudget(state, {
+			reviewRoundsUsed: options.reviewRoundsUsed?.(state),
+		});
+		if (stopReason) {
+			await recordHistoryEvent(getThreadId(config), state, "skipped", {
+				detail: stopReason,
+			});
+			return new Command({
+				update: { skipReason: stopReason, budget },
+				goto: END,
+			});
+		}
+
+		const result = await node({ ...state, budget }, config);
+		if (result instanceof Command) {
+			return new Command({
+				update: { ...(result.update as object), budget },
+				goto: result.goto,
+			});
+		}
+		return { ...result, budget };
+	};
+}
@@ -0,0 +1,37 @@
+import { existsSync } from "node:fs";
+import { createInterface } from "node:readline/promises";
+import { Writable } from "node:stream";
+import { InvalidArgumentError } from "commander";
+import z from "zod";
+
+export function validatePath(value: string): string {
+	try {
+		const path = z.string().min(1).parse(value);
+		if (!existsSync(path)) {
+			throw new InvalidArgumentError(`File not found at path: ${path}`);
+		}
+		return path;
+	} catch (err) {
+		throw new InvalidArgumentError(
+			`Invalid path: ${value}, ${err instanceof Error ? err.message : ""}`,
+		);
+	}
+}
+
+/**
+ * Asks for a secret without echoing it, e.g. the vault passphrase.
+ */
+export async function promptSecret(question: string): Promise<string> {
+	process.stdout.write(question);
+	const rl = createInterface({
+		input: process.stdin,
+		output: new Writable({ write: (_chunk, _encoding, done) => done() }),
+		terminal: process.stdin.isTTY,
+	});
+	try {
+		return (await rl.question("")).trim();
+	} finally {
+		rl.close();
+		process.stdout.write("\n");
+	}
+}
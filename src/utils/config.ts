@@ -0,0 +1,456 @@
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, isAbsolute, resolve } from "node:path";
+import { parse as parseYaml } from "yaml";
+import z from "zod";
+import { applicantDocumentSchema, budgetSchema } from "../states/state.js";
+import { envVars, modelProviderSchema } from "./env.js";
+
+export const fitConstraintsSchema = z
+	.object({
+		locations: z
+			.array(z.string())
+			.optional()
+			.describe("Acceptable locations, e.g. 'Vancouver, BC' or 'Remote'."),
+		terms: z
+			.array(z.string())
+			.optional()
+			.describe("Acceptable work terms, e.g. 'Summer 2027' or '8 months'."),
+		workAuthorization: z
+			.string()
+			.optional()
+			.describe(
+				"Your work authorization, e.g. 'Canadian citizen, no US authorization'.",
+			),
+		minimumPay: z
+			.object({
+				amount: z.number().positive(),
+				currency: z.string().default("CAD"),
+				period: z.enum(["hour", "month", "year"]).default("hour"),
+			})
+			.optional(),
+		other: z
+			.array(z.string())
+			.default([])
+			.describe("Free-form hard constraints, e.g. 'No senior or staff roles'."),
+	})
+	.describe("Hard constraints a posting must meet.");
+
+export type FitConstraints = z.infer<typeof fitConstraintsSchema>;
+
+const fitConfigSchema = z.object({
+	enabled: z.boolean().default(true),
+	threshold: z
+		.number()
+		.min(0)
+		.max(100)
+		.default(50)
+		.describe("Minimum fit score (0-100) to apply without asking."),
+	onLowFit: z
+		.enum(["skip", "ask"])
+		.default("skip")
+		.describe("Skip low-fit postings, or ask through an interrupt."),
+	constraints: fitConstraintsSchema.prefault({}),
+});
+
+export const viewportSchema = z.object({
+	width: z.number().int().positive(),
+	height: z.number().int().positive(),
+});
+
+const coverLetterConfigSchema = z.object({
+	enabled: z
+		.boolean()
+		.default(true)
+		.describe(
+			"Draft a cover letter when no cover_letter document is given. --no-cover-letter turns it off for one run.",
+		),
+});
+
+const browserConfigSchema = z.object({
+	headless: z.boolean().default(false),
+	viewport: viewportSchema.optional(),
+	profile: z
+		.string()
+		.regex(/^[\w.-]+$/)
+		.optional()
+		.describe(
+			"Persistent browser profile under data/browser-profiles/<name>, so ATS logins survive between runs.",
+		),
+	cdpUrl: z
+		.string()
+		.optional()
+		.describe(
+			"Attach to a running Chrome over CDP, e.g. http://localhost:9222, instead of launching one.",
+		),
+});
+
+export type BrowserConfig = z.infer<typeof browserConfigSchema>;
+
+const mailboxConfigSchema = z
+	.object({
+		host: z.string(),
+		port: z.number().int().positive().default(993),
+		secure: z
+			.boolean()
+			.default(true)
+			.describe(
+				"Implicit TLS. Set to false for STARTTLS or plain test servers.",
+			),
+		rejectUnauthorized: z
+			.boolean()
+			.default(true)
+			.describe(
+				"Set to false for local test servers with self-signed certificates.",
+			),
+		user: z.string(),
+		folder: z.string().default("INBOX"),
+		timeoutSeconds: z
+			.number()
+			.positive()
+			.default(180)
+			.describe(
+				"How long to wait for the email before asking through an interrupt.",
+			),
+		pollIntervalSeconds: z.number().positive().default(10),
+		senderDomains: z
+			.array(z.string())
+			.default([])
+			.describe(
+				"Extra sender domains to accept besides the application site and its ATS.",
+			),
+	})
+	.describe(
+		"IMAP mailbox polled for account verification emails. The password comes from IMAP_PASSWORD.",
+	);
+
+export type MailboxConfig = z.infer<typeof mailboxConfigSchema>;
+
+export const modelTaskSchema = z.enum([
+	"detection",
+	"accountSetup",
+	"formFill",
+	"submit",
+	"summarization",
+]);
+
+export type ModelTask = z.infer<typeof modelTaskSchema>;
+
+const modelEndpointSchema = z.object({
+	model: z
+		.string()
+		.describe(
+			"Model name, optionally prefixed with its provider, e.g. 'openai/gpt-4.1-mini'.",
+		),
+	provider: modelProviderSchema.optional(),
+	baseURL: z.url().optional(),
+	apiKeyEnv: z
+		.string()
+		.optional()
+		.describe("Env var holding this model's API key. Defaults to AI_API_KEY."),
+	temperature: z.number().min(0).max(2).optional(),
+});
+
+export type ModelEndpointConfig = z.infer<typeof modelEndpointSchema>;
+
+const modelRouteSchema = modelEndpointSchema.partial({ model: true }).extend({
+	maxSteps: z
+		.number()
+		.int()
+		.positive()
+		.optional()
+		.describe("Step limit for browser agents running this task."),
+	fallback: modelEndpointSchema
+		.optional()
+		.describe("Used when the primary model errors or is rate limited."),
+});
+
+export type ModelRouteConfig = z.infer<typeof modelRouteSchema>;
+
+const modelsConfigSchema = z
+	.object({
+		fallback: modelEndpointSchema
+			.optional()
+			.describe("Fallback for every task that does not set its own."),
+		detection: modelRouteSchema
+			.optional()
+			.describe(
+				"Read-only page checks: account requirement, posting and form extraction, submission verification.",
+			),
+		accountSetup: modelRouteSchema
+			.optional()
+			.describe("Account creation and login."),
+		formFill: modelRouteSchema.optional().describe("Multi-page form filling."),
+		submit: modelRouteSchema.optional().describe("The final submit click."),
+		summarization: modelRouteSchema
+			.optional()
+			.describe(
+				"Text tasks: profile extraction, fit assessment, cover letters, answer matching.",
+			),
+	})
+	.describe(
+		"Per-task models. Tasks without an entry use MODEL_NAME/MODEL_PROVIDER.",
+	);
+
+export const interruptTypeSchema = z.enum([
+	"missing_application_information",
+	"account_verification",
+	"account_password",
+	"fit_confirmation",
+	"cover_letter_review",
+	"submission_approval",
+	"budget_exceeded",
+	"error_recovery",
+]);
+
+export type InterruptType = z.infer<typeof interruptTypeSchema>;
+
+const interruptFallbackActionSchema = z.enum([
+	"approve",
+	"skip",
+	"park",
+	"fail",
+]);
+
+export const interruptActionSchema = z.enum([
+	"prompt",
+	"answers",
+	...interruptFallbackActionSchema.options,
+]);
+
+export type InterruptAction = z.infer<typeof interruptActionSchema>;
+
+/** Actions that mean something for each interrupt type. */
+export const supportedInterruptActions: Record<
+	InterruptType,
+	InterruptAction[]
+> = {
+	missing_application_information: [
+		"prompt",
+		"answers",
+		"approve",
+		"skip",
+		"park",
+		"fail",
+	],
+	account_verification: ["prompt", "approve", "skip", "park", "fail"],
+	account_password: ["prompt", "skip", "park", "fail"],
+	fit_confirmation: ["prompt", "approve", "skip", "park", "fail"],
+	cover_letter_review: ["prompt", "approve", "skip", "park", "fail"],
+	submission_approval: ["prompt", "approve", "skip", "park", "fail"],
+	budget_exceeded: ["prompt", "approve", "skip", "park", "fail"],
+	// Retrying unattended could fail the same way forever.
+	error_recovery: ["prompt", "skip", "park", "fail"],
+};
+
+const interruptPolicySchema = z.object({
+	action: interruptActionSchema.default("prompt"),
+	fallback: interruptFallbackActionSchema
+		.default("park")
+		.describe(
+			"Applied when a prompt times out or the answers file has no answer.",
+		),
+	timeoutSeconds: z
+		.number()
+		.int()
+		.positive()
+		.optional()
+		.describe("How long a prompt waits for an answer."),
+});
+
+export type InterruptPolicy = z.infer<typeof interruptPolicySchema>;
+
+const interruptsConfigSchema = z
+	.object({
+		answersFile: z
+			.string()
+			.optional()
+			.describe("YAML file answering missing-information questions."),
+		timeoutSeconds: z
+			.number()
+			.int()
+			.positive()
+			.optional()
+			.describe("Default prompt timeout for every interrupt type."),
+		policies: z
+			.partialRecord(interruptTypeSchema, interruptPolicySchema)
+			.default({}),
+	})
+	.superRefine(({ policies }, context) => {
+		for (const [type, policy] of Object.entries(policies)) {
+			const supported = supportedInterruptActions[type as InterruptType];
+			for (const action of [policy.action, policy.fallback]) {
+				if (!supported.includes(action)) {
+					context.addIssue({
+						code: "custom",
+						path: ["policies", type],
+						message: `"${action}" is not supported for ${type}; use one of ${supported.join(", ")}`,
+					});
+				}
+			}
+		}
+	})
+	.describe("How each interrupt type is answered in unattended runs.");
+
+const recoveryConfigSchema = z
+	.object({
+		retryAttempts: z
+			.number()
+			.int()
+			.nonnegative()
+			.default(3)
+			.describe(
+				"Retries of a navigation or model call that timed out, was rate limited or hit a server error.",
+			),
+		retryDelaySeconds: z
+			.number()
+			.positive()
+			.default(2)
+			.describe("Delay before the first retry; doubles for each retry."),
+		maxRecoveries: z
+			.number()
+			.int()
+			.nonnegative()
+			.default(2)
+			.describe(
+				"Times RecoveryNode reloads the page and reruns a failing node before asking for help.",
+			),
+	})
+	.describe("Retries and automatic recovery from node failures.");
+
+const modelPriceSchema = z.object({
+	input: z.number().nonnegative().describe("USD per million input tokens."),
+	output: z.number().nonnegative().describe("USD per million output tokens."),
+});
+
+export type ModelPrice = z.infer<typeof modelPriceSchema>;
+
+export const notificationKindSchema = z.enum([
+	"interrupt",
+	"finished",
+	"failed",
+]);
+
+export type NotificationKind = z.infer<typeof notificationKindSchema>;
+
+const notifierConfigSchema = z.discriminatedUnion("type", [
+	z.object({ type: z.literal("desktop") }),
+	z.object({
+		type: z.literal("webhook"),
+		url: z.url(),
+		headers: z
+			.record(z.string(), z.string())
+			.default({})
+			.describe("Extra request headers, e.g. an Authorization header."),
+	}),
+	z
+		.object({
+			type: z.literal("email"),
+			host: z.string(),
+			port: z.number().int().positive().default(587),
+			secure: z
+				.boolean()
+				.default(false)
+				.describe("Implicit TLS (port 465). Otherwise STARTTLS when offered."),
+			rejectUnauthorized: z
+				.boolean()
+				.default(true)
+				.describe(
+					"Set to false for local test servers with self-signed certificates.",
+				),
+			user: z
+				.string()
+				.optional()
+				.describe("SMTP login. The password comes from SMTP_PASSWORD."),
+			from: z.string(),
+			to: z.array(z.string()).min(1),
+		})
+		.describe("SMTP email. Leave out `user` for servers without auth."),
+]);
+
+export type NotifierConfig = z.infer<typeof notifierConfigSchema>;
+
+const notificationsConfigSchema = z
+	.object({
+		on: z
+			.array(notificationKindSchema)
+			.default(["interrupt", "finished", "failed"])
+			.describe(
+				"Which events notify: a run waiting on an interrupt, a run that finished, a run that failed.",
+			),
+		dashboardUrl: z
+			.url()
+			.optional()
+			.describe(
+				"Review dashboard link included in notifications. Defaults to the running `serve` address.",
+			),
+		notifiers: z.array(notifierConfigSchema).default([]),
+	})
+	.describe("Where to send notifications about runs that need attention.");
+
+export const configSchema = z.object({
+	documents: z
+		.array(
+			applicantDocumentSchema.pick({ label: true, path: true, kind: true }),
+		)
+		.default([])
+		.describe("Documents available to every run, in addition to the resume."),
+	fit: fitConfigSchema.prefault({}),
+	coverLetter: coverLetterConfigSchema.prefault({}),
+	models: modelsConfigSchema.prefault({}),
+	browser: browserConfigSchema.prefault({}),
+	mailbox: mailboxConfigSchema.optional(),
+	interrupts: interruptsConfigSchema.prefault({}),
+	notifications: notificationsConfigSchema.prefault({}),
+	recovery: recoveryConfigSchema.prefault({}),
+	budgets: budgetSchema.prefault({}),
+	prices: z
+		.record(z.string(), modelPriceSchema)
+		.default({})
+		.describe(
+			"Price per model name, e.g. 'gemini-2.5-flash' or 'openai/gpt-4.1-mini', for cost estimates.",
+		),
+});
+
+export type AppConfig = z.infer<typeof configSchema>;
+
+/**
+ * Loads the optional YAML/JSON config file named by CONFIG_PATH. Relative
+ * paths inside it are resolved against the config file's directory.
+ */
+function loadConfig(configPath: string): AppConfig {
+	if (!existsSync(configPath)) {
+		return configSchema.parse({});
+	}
+
+	const content = readFileSync(configPath, "utf-8");
+	const parsed = configSchema.safeParse(
+		(configPath.endsWith(".json") ? JSON.parse(content) : parseYaml(content)) ??
+			{},
+	);
+	if (!parsed.success) {
+		throw new Error(
+			`Invalid config at ${configPath}:\n${z.prettifyError(parsed.error)}`,
+		);
+	}
+
+	const baseDir = dirname(resolve(configPath));
+	const { answersFile } = parsed.data.interrupts;
+	return {
+		...parsed.data,
+		interrupts: {
+			...parsed.data.interrupts,
+			answersFile:
+				answersFile && !isAbsolute(answersFile)
+					? resolve(baseDir, answersFile)
+					: answersFile,
+		},
+		documents: parsed.data.documents.map((document) => ({
+			...document,
+			path: isAbsolute(document.path)
+				? document.path
+				: resolve(baseDir, document.path),
+		})),
+	};
+}
+
+export const appConfig = loadConfig(envVars.CONFIG_PATH);
@@ -0,0 +1,131 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import type { Stagehand } from "@browserbasehq/stagehand";
+import z from "zod";
+import type { ApplicantProfile, JobPosting } from "../states/state.js";
+import { formatApplicantProfile } from "./applicant-profile.js";
+import { envVars } from "./env.js";
+import { getStructuredModel } from "./instances.js";
+
+const coverLetterDraftSchema = z.object({
+	coverLetter: z
+		.string()
+		.describe(
+			"The full cover letter text, from salutation to sign-off, with paragraphs separated by blank lines.",
+		),
+});
+
+export function getCoverLetterPath(
+	threadId: string | undefined,
+	posting: Pick<JobPosting, "company">,
+): string {
+	const slug = (posting.company ?? "cover-letter")
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-|-$/g, "");
+	return join(
+		envVars.DATA_DIR,
+		"cover-letters",
+		`${slug || "cover-letter"}-${threadId ?? Date.now()}.pdf`,
+	);
+}
+
+/**
+ * Drafts a cover letter for the posting. Tone and length preferences in the
+ * extra prompts take precedence over the defaults in the system prompt.
+ */
+export async function draftCoverLetter(options: {
+	posting: JobPosting;
+	applicantProfile?: ApplicantProfile;
+	resumeText?: string;
+	extraPrompts?: string;
+	previousDraft?: string;
+	feedback?: string;
+}): Promise<string> {
+	const { posting, applicantProfile, resumeText, extraPrompts } = options;
+	const model = await getStructuredModel(coverLetterDraftSchema);
+	const draft = await model.invoke([
+		{
+			role: "system",
+			content:
+				"You write tailored cover letters for job applications. Only claim experience and skills the applicant actually has. Connect the applicant's most relevant work to the posting's requirements. Unless the applicant's instructions say otherwise, use a professional, warm tone and keep it under 350 words in 3-4 paragraphs. Do not include placeholders such as [Company Address].",
+		},
+		{
+			role: "user",
+			content: `
+Job posting:
+${JSON.stringify(posting, null, 2)}
+
+${applicantProfile ? formatApplicantProfile(applicantProfile) : `Resume:\n${resumeText ?? ""}`}
+${extraPrompts ? `\nApplicant instructions (follow tone and length preferences here):\n${extraPrompts}` : ""}
+${options.previousDraft && options.feedback ? `\nRevise this previous draft:\n${options.previousDraft}\n\nFeedback to address:\n${options.feedback}` : ""}
+`.trim(),
+		},
+	]);
+
+	return coverLetterDraftSchema.parse(draft).coverLetter.trim();
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+function renderCoverLetterHtml(coverLetter: string): string {
+	const paragraphs = coverLetter
+		.split(/\n\s*\n/)
+		.map((paragraph) => paragraph.trim())
+		.filter((paragraph) => paragraph.length > 0)
+		.map(
+			(paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, "<br>")}</p>`,
+		);
+
+	return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<style>
+body { font-family: Georgia, "Times New Roman", serif; font-size: 11.5pt; line-height: 1.45; margin: 0; }
+p { margin: 0 0 12pt; }
+</style>
+</head>
+<body>${paragraphs.join("\n")}</body>
+</html>`;
+}
+
+/**
+ * Prints the letter to PDF in a temporary tab, so no extra PDF library is
+ * needed. The application tab stays the active page afterwards.
+ */
+export async function renderCoverLetterPdf(
+	stagehand: Stagehand,
+	coverLetter: string,
+	outputPath: string,
+): Promise<void> {
+	const activePage = stagehand.context.activePage();
+	const page = await stagehand.context.newPage();
+	try {
+		await page.goto(
+			`data:text/html;charset=utf-8,${encodeURIComponent(renderCoverLetterHtml(coverLetter))}`,
+		);
+		const { data } = await page.sendCDP<{ data: string }>("Page.printToPDF", {
+			printBackground: true,
+			paperWidth: 8.5,
+			paperHeight: 11,
+			marginTop: 1,
+			marginBottom: 1,
+			marginLeft: 1,
+			marginRight: 1,
+		});
+		await mkdir(dirname(outputPath), { recursive: true });
+		await writeFile(outputPath, Buffer.from(data, "base64"));
+	} finally {
+		await page.close();
+		if (activePage) {
+			stagehand.context.setActivePage(activePage);
+		}
+	}
+}
@@ -0,0 +1,177 @@
+import { readFile } from "node:fs/promises";
+import { basename, extname } from "node:path";
+import { InvalidArgumentError } from "commander";
+import mammoth from "mammoth";
+import { PDFParse } from "pdf-parse";
+import type { ApplicantDocument } from "../states/state.js";
+import { validatePath } from "./cli.js";
+
+type DocumentKind = NonNullable<ApplicantDocument["kind"]>;
+
+const mimeTypesByExtension: Record<string, string> = {
+	".pdf": "application/pdf",
+	".docx":
+		"application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+	".txt": "text/plain",
+	".md": "text/markdown",
+};
+
+const kindKeywords: Record<Exclude<DocumentKind, "other">, RegExp> = {
+	resume: /\b(resume|cv|curriculum vitae)\b/i,
+	cover_letter: /\bcover[\s_-]*letter\b|\bmotivation letter\b/i,
+	transcript: /\b(transcript|grades|academic record)\b/i,
+	portfolio: /\b(portfolio|work sample|writing sample|code sample)\b/i,
+};
+
+export const supportedDocumentExtensions = Object.keys(mimeTypesByExtension);
+
+export function getDocumentMimeType(path: string): string {
+	const extension = extname(path).toLowerCase();
+	const mimeType = mimeTypesByExtension[extension];
+	if (!mimeType) {
+		throw new Error(
+			`Unsupported document type "${extension}" for ${path}. Use ${supportedDocumentExtensions.join(", ")}.`,
+		);
+	}
+	return mimeType;
+}
+
+export function inferDocumentKind(text: string): DocumentKind {
+	// Strip accents so "Résumé" matches like "resume".
+	const normalized = text
+		.normalize("NFD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.replace(/[_-]+/g, " ");
+	for (const [kind, pattern] of Object.entries(kindKeywords)) {
+		if (pattern.test(normalized)) {
+			return kind as DocumentKind;
+		}
+	}
+	return "other";
+}
+
+export async function parseDocumentText(path: string): Promise<string> {
+	const mimeType = getDocumentMimeType(path);
+
+	if (mimeType === "application/pdf") {
+		const parser = new PDFParse({
+			url: path,
+		});
+		return (await parser.getText()).text;
+	}
+
+	if (mimeType === mimeTypesByExtension[".docx"]) {
+		return (await mammoth.extractRawText({ path })).value;
+	}
+
+	return readFile(path, "utf-8");
+}
+
+/**
+ * Commander collector for repeatable `--document label=path` options. A bare
+ * path uses its file name as label.
+ */
+export function parseDocumentOption(
+	value: string,
+	previous: Pick<ApplicantDocument, "label" | "path">[] = [],
+): Pick<ApplicantDocument, "label" | "path">[] {
+	const separatorIndex = value.indexOf("=");
+	const document =
+		separatorIndex <= 0
+			? { label: basename(value, extname(value)), path: value }
+			: {
+					label: value.slice(0, separatorIndex).trim(),
+					path: value.slice(separatorIndex + 1).trim(),
+				};
+
+	validatePath(document.path);
+	try {
+		getDocumentMimeType(document.path);
+	} catch (err) {
+		throw new InvalidArgumentError(
+			err instanceof Error ? err.message : String(err),
+		);
+	}
+	return [...previous, document];
+}
+
+/**
+ * Reads text, MIME type and kind for each document. Kind falls back to the
+ * label and then the file name when the user did not set one.
+ */
+export async function prepareDocuments(
+	documents: ApplicantDocument[],
+): Promise<ApplicantDocument[]> {
+	return Promise.all(
+		documents.map(async (document) => ({
+			...document,
+			kind:
+				document.kind ??
+				(inferDocumentKind(document.label) !== "other"
+					? inferDocumentKind(document.label)
+					: inferDocumentKind(document.path)),
+			mimeType: getDocumentMimeType(document.path),
+			text: document.text ?? (await parseDocumentText(document.path)),
+		})),
+	);
+}
+
+function acceptsDocument(accept: string, document: ApplicantDocument): boolean {
+	const acceptedTypes = accept
+		.split(",")
+		.map((type) => type.trim().toLowerCase())
+		.filter((type) => type.length > 0);
+	if (acceptedTypes.length === 0) {
+		return true;
+	}
+
+	const extension = extname(document.path).toLowerCase();
+	const mimeType = document.mimeType ?? "";
+	return acceptedTypes.some((type) => {
+		if (type.startsWith(".")) {
+			return type === extension;
+		}
+		if (type.endsWith("/*")) {
+			return mimeType.startsWith(type.slice(0, -1));
+		}
+		return type === mimeType;
+	});
+}
+
+/**
+ * Picks the document for a file input: an explicit label wins, otherwise the
+ * document whose kind matches the field label, among those the input accepts.
+ */
+export function selectDocumentForInput(
+	documents: ApplicantDocument[],
+	input: { fieldLabel?: string; documentLabel?: string; accept: string },
+): ApplicantDocument | undefined {
+	const acceptable = documents.filter((document) =>
+		acceptsDocument(input.accept, document),
+	);
+
+	if (input.documentLabel) {
+		const wanted = input.documentLabel.trim().toLowerCase();
+		const byLabel = acceptable.find(
+			(document) => document.label.toLowerCase() === wanted,
+		);
+		if (byLabel) {
+			return byLabel;
+		}
+	}
+
+	const fieldKind = inferDocumentKind(
+		`${input.fieldLabel ?? ""} ${input.documentLabel ?? ""}`,
+	);
+	const byKind = acceptable.find((document) => document.kind === fieldKind);
+	if (byKind) {
+		return byKind;
+	}
+
+	// Unlabelled single-file inputs on application forms are almost always the resume.
+	if (fieldKind === "other") {
+		return acceptable.find((document) => document.kind === "resume");
+	}
+
+	return undefined;
+}
@@ -2,11 +2,29 @@ import dotenv from "dotenv";
 import z from "zod";
 
 dotenv.config();
+
+export const modelProviderSchema = z.enum([
+	"google",
+	"openai",
+	"anthropic",
+	"openai-compatible",
+	"ollama",
+]);
+
+export type ModelProvider = z.infer<typeof modelProviderSchema>;
+
 export const envVars = z
 	.object({
-		AI_API_KEY: z.string(),
+		AI_API_KEY: z.string().optional(),
 		MODEL_NAME: z.string(),
+		MODEL_PROVIDER: modelProviderSchema.optional(),
+		MODEL_BASE_URL: z.url().optional(),
 		ACCOUNT_EMAIL: z.string().email().optional(),
 		ACCOUNT_PASSWORD: z.string().optional(),
+		VAULT_PASSPHRASE: z.string().min(8).optional(),
+		IMAP_PASSWORD: z.string().optional(),
+		SMTP_PASSWORD: z.string().optional(),
+		DATA_DIR: z.string().default("data"),
+		CONFIG_PATH: z.string().default("open-door.config.yaml"),
 	})
 	.parse(process.env);
@@ -0,0 +1,116 @@
+import { logger } from "../index.js";
+import type { ErrorKind } from "../states/state.js";
+import { appConfig } from "./config.js";
+
+export type ClassifiedError = {
+	kind: ErrorKind;
+	message: string;
+	/** Worth retrying as is, after a delay. */
+	transient: boolean;
+};
+
+const transientKinds: ErrorKind[] = [
+	"navigation_timeout",
+	"model_rate_limit",
+	"model_server_error",
+];
+
+const rateLimitPattern =
+	/\b429\b|rate.?limit|too many requests|quota|resource.?exhausted/i;
+const serverErrorPattern =
+	/\b50[0234]\b|overloaded|service unavailable|internal server error|bad gateway|gateway timeout/i;
+const botDetectionPattern =
+	/captcha|are you a (ro)?bot|verify (that )?you are (a )?human|unusual traffic|access denied|request blocked|bot detection/i;
+const navigationPattern =
+	/net::ERR_|navigation|timed? ?out|ETIMEDOUT|ECONNRESET|ECONNREFUSED|ENOTFOUND|socket hang up/i;
+
+/**
+ * Creates an error of a known kind, for failures the thrower can name
+ * (e.g. a login that did not go through).
+ */
+export function createError(kind: ErrorKind, message: string): Error {
+	return Object.assign(new Error(message), { kind });
+}
+
+/** Whether page text reads like a CAPTCHA or bot wall. */
+export function looksLikeBotCheck(text: string): boolean {
+	return botDetectionPattern.test(text);
+}
+
+function kindOf(error: unknown, message: string): ErrorKind {
+	const { kind, name, status, statusCode } = (
+		error && typeof error === "object" ? error : {}
+	) as {
+		kind?: ErrorKind;
+		name?: string;
+		status?: unknown;
+		statusCode?: unknown;
+	};
+	if (kind) {
+		return kind;
+	}
+	if (name === "AbortError") {
+		return "user_abort";
+	}
+
+	const httpStatus = Number(status ?? statusCode);
+	if (httpStatus === 429 || rateLimitPattern.test(message)) {
+		return "model_rate_limit";
+	}
+	if (httpStatus >= 500 || serverErrorPattern.test(message)) {
+		return "model_server_error";
+	}
+	if (name === "CaptchaTimeoutError" || botDetectionPattern.test(message)) {
+		return "bot_detection";
+	}
+	// Stagehand names its errors after their class.
+	if (/^(Act|Extract|Observe)TimeoutError$/.test(name ?? "")) {
+		return "action_failure";
+	}
+	if (/TimeoutError$/.test(name ?? "") || navigationPattern.test(message)) {
+		return "navigation_timeout";
+	}
+	if (
+		/^Stagehand|ElementNotVisibleError|XPathResolutionError|ContentFrameNotFoundError/.test(
+			name ?? "",
+		)
+	) {
+		return "action_failure";
+	}
+
+	return "unknown";
+}
+
+export function classifyError(error: unknown): ClassifiedError {
+	const message = error instanceof Error ? error.message : String(error);
+	const kind = kindOf(error, message);
+	return { kind, message, transient: transientKinds.includes(kind) };
+}
+
+/**
+ * Runs an operation, retrying it with exponential backoff while it fails
+ * with a transient error (navigation timeout, rate limit, server error).
+ */
+export async function withRetry<T>(
+	label: string,
+	operation: () => Promise<T>,
+): Promise<T> {
+	const { retryAttempts, retryDelaySeconds } = appConfig.recovery;
+	for (let attempt = 0; ; attempt += 1) {
+		try {
+			return await operation();
+		} catch (error) {
+			const { kind, message, transient } = classifyError(error);
+			if (!transient || attempt >= retryAttempts) {
+				throw error;
+			}
+
+			const delaySeconds = retryDelaySeconds * 2 ** attempt;
+			logger.warn(
+				{ label, kind, attempt: attempt + 1, delaySeconds, error: message },
+				"Transient failure, retrying after a delay.",
+			);
+			await new Promise((resolve) => setTimeout(resolve, delaySeconds * 1000));
+		}
+	}
+}
@@ -0,0 +1,230 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { Stagehand } from "@browserbasehq/stagehand";
+import z from "zod";
+import {
+	type FieldSnapshot,
+	type FormField,
+	type FormPage,
+	formFieldSchema,
+} from "../states/state.js";
+import { getRunDirectory } from "../stores/run-artifacts.store.js";
+import { toStagehandModel } from "./model-provider.js";
+import { getModelRoute, runWithModelFallback } from "./model-routing.js";
+import { formatTable, type TableColumn } from "./table.js";
+
+const extractedFieldsSchema = z.object({
+	fields: z.array(
+		formFieldSchema.pick({
+			section: true,
+			label: true,
+			value: true,
+			required: true,
+			type: true,
+		}),
+	),
+});
+
+type SelectedFiles = { label: string; required: boolean; files: string[] };
+
+const maxValueLength = 80;
+
+function readSelectedFiles(): SelectedFiles[] {
+	return Array.from(
+		document.querySelectorAll<HTMLInputElement>('input[type="file"]'),
+	)
+		.filter((input) => (input.files?.length ?? 0) > 0)
+		.map((input) => ({
+			label:
+				input.labels?.[0]?.textContent?.trim() ||
+				input.getAttribute("aria-label") ||
+				input.name ||
+				"File upload",
+			required: input.required,
+			files: Array.from(input.files ?? []).map((file) => file.name),
+		}));
+}
+
+function fieldKey(field: Pick<FormField, "section" | "label">): string {
+	return `${field.section ?? ""}::${field.label}`
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}:]+/gu, " ")
+		.trim();
+}
+
+function isMissing(field: FormField): boolean {
+	return field.required && field.value.trim().length === 0;
+}
+
+/**
+ * Reads every visible field on the current form page. File names come from
+ * the file inputs themselves, since many ATS pages only show an icon.
+ */
+export async function captureFormPage(stagehand: Stagehand): Promise<FormPage> {
+	const page = stagehand.context.pages()[0];
+	if (!page) {
+		throw new Error("No page found in browser context.");
+	}
+
+	const { fields } = await runWithModelFallback(
+		getModelRoute("detection"),
+		(settings) =>
+			stagehand.extract(
+				"Extract every visible field of the application form on this page: its section/page heading, label, current value exactly as displayed (selected options, checked state, uploaded file names; empty string when blank), whether it is marked required, and its input type. If the page shows a review or summary of earlier form steps, include those fields too.",
+				extractedFieldsSchema,
+				{ model: toStagehandModel(settings) },
+			),
+	);
+
+	const pageFields: FormField[] = [...fields];
+	for (const selected of await page.evaluate(readSelectedFiles)) {
+		const value = selected.files.join(", ");
+		const existing = pageFields.find(
+			(field) =>
+				field.type === "file" &&
+				fieldKey({ label: field.label }) ===
+					fieldKey({ label: selected.label }),
+		);
+		if (existing) {
+			existing.value = value;
+		} else {
+			pageFields.push({
+				label: selected.label,
+				value,
+				required: selected.required,
+				type: "file",
+			});
+		}
+	}
+
+	return {
+		capturedAt: new Date().toISOString(),
+		pageUrl: page.url(),
+		fields: pageFields,
+	};
+}
+
+/**
+ * Adds a captured page to the pages seen so far. A page the agent comes back
+ * to, e.g. in a later review round, replaces its earlier capture: same URL
+ * and at least half of the fields in common.
+ */
+export function mergeFormPage(pages: FormPage[], page: FormPage): FormPage[] {
+	const keys = new Set(page.fields.map(fieldKey));
+	const index = pages.findIndex((existing) => {
+		if (existing.pageUrl !== page.pageUrl) {
+			return false;
+		}
+		const shared = existing.fields.filter((field) =>
+			keys.has(fieldKey(field)),
+		).length;
+		return shared * 2 >= Math.min(existing.fields.length, keys.size);
+	});
+
+	return index === -1
+		? [...pages, page]
+		: pages.map((existing, position) => (position === index ? page : existing));
+}
+
+/**
+ * Combines the form pages into one snapshot for review, numbering each field
+ * with its page and flagging values changed since the previous round.
+ */
+export function buildFieldSnapshot(options: {
+	pages: FormPage[];
+	previous: FieldSnapshot | undefined;
+	pageUrl: string;
+	notes?: string[];
+}): FieldSnapshot {
+	const { pages, previous, pageUrl, notes } = options;
+	// An empty previous snapshot failed to capture; there is nothing to diff.
+	const compared = previous?.fields.length ? previous : undefined;
+	const previousValues = new Map(
+		compared?.fields.map((field) => [fieldKey(field), field.value]) ?? [],
+	);
+
+	return {
+		capturedAt: new Date().toISOString(),
+		pageUrl,
+		round: (previous?.round ?? 0) + 1,
+		notes: notes?.length ? notes : undefined,
+		fields: pages.flatMap((formPage, index) =>
+			formPage.fields.map((field) => {
+				const pageField = {
+					...field,
+					page: pages.length > 1 ? index + 1 : undefined,
+				};
+				if (!compared) {
+					return pageField;
+				}
+
+				const previousValue = previousValues.get(fieldKey(field));
+				const changed = previousValue !== field.value;
+				return {
+					...pageField,
+					changed,
+					previousValue: changed ? previousValue : undefined,
+				};
+			}),
+		),
+	};
+}
+
+export async function saveFieldSnapshot(
+	threadId: string | undefined,
+	snapshot: FieldSnapshot,
+): Promise<string> {
+	const directory = join(
+		getRunDirectory(threadId ?? "unknown-thread"),
+		"field-snapshots",
+	);
+	await mkdir(directory, { recursive: true });
+	const path = join(directory, `round-${snapshot.round}.json`);
+	await writeFile(path, `${JSON.stringify(snapshot, null, "\t")}\n`);
+	return path;
+}
+
+function truncate(value: string): string {
+	return value.length > maxValueLength
+		? `${value.slice(0, maxValueLength - 3)}...`
+		: value;
+}
+
+const snapshotColumns: TableColumn<FormField>[] = [
+	{
+		header: "!",
+		value: (field) => {
+			if (isMissing(field)) {
+				return "MISSING";
+			}
+			return field.changed ? "CHANGED" : undefined;
+		},
+	},
+	{ header: "Page", value: (field) => field.page },
+	{ header: "Section", value: (field) => field.section },
+	{ header: "Field", value: (field) => field.label },
+	{ header: "Req", value: (field) => (field.required ? "yes" : undefined) },
+	{
+		header: "Value",
+		value: (field) =>
+			field.changed && field.previousValue !== undefined
+				? `${truncate(field.value)} (was: ${truncate(field.previousValue)})`
+				: truncate(field.value),
+	},
+];
+
+/**
+ * Renders the snapshot for the review prompt, flagging empty required
+ * fields and values changed since the previous round.
+ */
+export function formatFieldSnapshot(snapshot: FieldSnapshot): string {
+	const missingCount = snapshot.fields.filter(isMissing).length;
+	const changedCount = snapshot.fields.filter((field) => field.changed).length;
+
+	return [
+		`Form fields up to ${snapshot.pageUrl} (review round ${snapshot.round}):`,
+		...(snapshot.notes ?? []),
+		formatTable(snapshotColumns, snapshot.fields),
+		`${snapshot.fields.length} fields, ${missingCount} required field(s) empty${snapshot.round > 1 ? `, ${changedCount} changed since last review` : ""}.`,
+	].join("\n");
+}
@@ -0,0 +1,68 @@
+import {
+	type ApplicantProfile,
+	type FitAssessment,
+	fitAssessmentSchema,
+	type JobPosting,
+} from "../states/state.js";
+import { formatApplicantProfile } from "./applicant-profile.js";
+import type { FitConstraints } from "./config.js";
+import { getStructuredModel } from "./instances.js";
+
+function formatConstraints(constraints: FitConstraints): string[] {
+	const lines: string[] = [];
+	if (constraints.locations?.length) {
+		lines.push(`Location must be one of: ${constraints.locations.join("; ")}`);
+	}
+	if (constraints.terms?.length) {
+		lines.push(`Work term must match one of: ${constraints.terms.join("; ")}`);
+	}
+	if (constraints.workAuthorization) {
+		lines.push(
+			`Applicant work authorization: ${constraints.workAuthorization}. The posting must not require an authorization or citizenship the applicant lacks.`,
+		);
+	}
+	if (constraints.minimumPay) {
+		const { amount, currency, period } = constraints.minimumPay;
+		lines.push(
+			`Pay must be at least ${amount} ${currency} per ${period} when the posting states pay.`,
+		);
+	}
+	lines.push(...constraints.other);
+	return lines;
+}
+
+/**
+ * Scores the posting against the applicant and checks the configured hard
+ * constraints. Constraints only fail on clear evidence in the posting.
+ */
+export async function assessFit(options: {
+	jobPosting: JobPosting;
+	constraints: FitConstraints;
+	applicantProfile?: ApplicantProfile;
+	resumeText?: string;
+}): Promise<FitAssessment> {
+	const { jobPosting, applicantProfile, resumeText } = options;
+	const constraints = formatConstraints(options.constraints);
+	const model = await getStructuredModel(fitAssessmentSchema);
+	const assessment = await model.invoke([
+		{
+			role: "system",
+			content:
+				"You screen job postings for an applicant before they apply. Score 0-100 how well the applicant's education, experience and skills match the posting's level and requirements (e.g. a student applying to a senior role scores low). List a hard constraint in failedConstraints only when the posting clearly violates it; missing information is not a violation.",
+		},
+		{
+			role: "user",
+			content: `
+Job posting:
+${JSON.stringify(jobPosting, null, 2)}
+
+${applicantProfile ? formatApplicantProfile(applicantProfile) : `Resume:\n${resumeText ?? ""}`}
+
+Hard constraints:
+${constraints.length > 0 ? constraints.map((constraint) => `- ${constraint}`).join("\n") : "None."}
+`.trim(),
+		},
+	]);
+
+	return fitAssessmentSchema.parse(assessment);
+}
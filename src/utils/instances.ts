@@ -1,16 +1,32 @@
 import { Stagehand } from "@browserbasehq/stagehand";
+import type { BaseLanguageModelInput } from "@langchain/core/language_models/base";
 import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
-import { initChatModel } from "langchain";
-import { envVars } from "./env.js";
-
-function normalizeGoogleModelName(modelName: string): string {
-	return modelName.startsWith("google/")
-		? modelName.slice("google/".length)
-		: modelName;
-}
+import type { Runnable } from "@langchain/core/runnables";
+import type { InteropZodType } from "@langchain/core/utils/types";
+import {
+	type BrowserOverrides,
+	resolveBrowserLaunchOptions,
+} from "./browser.js";
+import type { ModelTask } from "./config.js";
+import {
+	createChatModel,
+	getDefaultModelSettings,
+	type ModelSettings,
+	toStagehandModel,
+} from "./model-provider.js";
+import { getModelRoute } from "./model-routing.js";
 
 let stagehandInstance: Stagehand | null = null;
 let stagehandInitPromise: Promise<Stagehand> | null = null;
+let browserOverrides: BrowserOverrides = {};
+
+/**
+ * Applies CLI browser options over the config file. Only affects browsers
+ * started afterwards.
+ */
+export function configureBrowser(overrides: BrowserOverrides): void {
+	browserOverrides = overrides;
+}
 
 export async function getStagehandInstance(): Promise<Stagehand> {
 	if (stagehandInstance) {
@@ -19,54 +35,87 @@ export async function getStagehandInstance(): Promise<Stagehand> {
 
 	if (!stagehandInitPromise) {
 		stagehandInitPromise = (async () => {
-			const stagehand = new Stagehand({
-				env: "LOCAL",
-				model: {
-					modelName: envVars.MODEL_NAME,
-					apiKey: envVars.AI_API_KEY,
-					temperature: 0,
-				},
-				localBrowserLaunchOptions: {
-					headless: false,
-				},
-				experimental: true,
-			});
-			await stagehand.init();
-			stagehandInstance = stagehand;
-			return stagehand;
+			try {
+				const stagehand = new Stagehand({
+					env: "LOCAL",
+					model: toStagehandModel({
+						...getDefaultModelSettings(),
+						temperature: 0,
+					}),
+					localBrowserLaunchOptions:
+						await resolveBrowserLaunchOptions(browserOverrides),
+					experimental: true,
+				});
+				await stagehand.init();
+				stagehandInstance = stagehand;
+				return stagehand;
+			} catch (error) {
+				stagehandInitPromise = null;
+				throw error;
+			}
 		})();
 	}
 
 	return stagehandInitPromise;
 }
 
-let modelInstance: BaseChatModel | null = null;
-let modelInitPromise: Promise<BaseChatModel> | null = null;
+/** The browser if it has started, without starting one. */
+export function getRunningStagehand(): Stagehand | null {
+	return stagehandInstance;
+}
+
+/**
+ * Closes the browser, or detaches from it when attached over CDP. Safe to
+ * call while the browser is still starting.
+ */
+export async function closeStagehandInstance(): Promise<void> {
+	const pending = stagehandInitPromise;
+	stagehandInstance = null;
+	stagehandInitPromise = null;
+	const stagehand = await pending?.catch(() => null);
+	await stagehand?.close();
+}
 
-export async function getModelInstance(): Promise<BaseChatModel> {
-	if (modelInstance) {
-		return modelInstance;
+const modelInstances = new Map<string, Promise<BaseChatModel>>();
+
+function getChatModel(settings: ModelSettings): Promise<BaseChatModel> {
+	const key = JSON.stringify(settings);
+	let modelPromise = modelInstances.get(key);
+	if (!modelPromise) {
+		modelPromise = createChatModel(settings).catch((error: unknown) => {
+			modelInstances.delete(key);
+			throw error;
+		});
+		modelInstances.set(key, modelPromise);
 	}
 
-	if (!modelInitPromise) {
-		modelInitPromise = (async () => {
-			try {
-				const model = await initChatModel(
-					normalizeGoogleModelName(envVars.MODEL_NAME),
-					{
-						apiKey: envVars.AI_API_KEY,
-						temperature: 0,
-						modelProvider: "google-genai",
-					},
-				);
-				modelInstance = model;
-				return model;
-			} catch (error) {
-				modelInitPromise = null;
-				throw error;
-			}
-		})();
+	return modelPromise;
+}
+
+export async function getModelInstance(
+	task: ModelTask = "summarization",
+): Promise<BaseChatModel> {
+	return getChatModel(getModelRoute(task).primary);
+}
+
+/**
+ * Structured-output model for a task that falls back to the task's
+ * fallback model when the primary one errors.
+ */
+export async function getStructuredModel<T extends Record<string, unknown>>(
+	schema: InteropZodType<T>,
+	task: ModelTask = "summarization",
+): Promise<Runnable<BaseLanguageModelInput, T>> {
+	const route = getModelRoute(task);
+	const primary = (await getChatModel(route.primary)).withStructuredOutput(
+		schema,
+	);
+	if (!route.fallback) {
+		return primary;
 	}
 
-	return modelInitPromise;
+	const fallback = (await getChatModel(route.fallback)).withStructuredOutput(
+		schema,
+	);
+	return primary.withFallbacks([fallback]);
 }
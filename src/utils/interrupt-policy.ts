@@ -0,0 +1,209 @@
+import { readFile } from "node:fs/promises";
+import { parse as parseYaml } from "yaml";
+import z from "zod";
+import { logger } from "../index.js";
+import { normalizeQuestionKey } from "../stores/answer-bank.store.js";
+import {
+	appConfig,
+	type InterruptAction,
+	type InterruptPolicy,
+	type InterruptType,
+	interruptTypeSchema,
+} from "./config.js";
+import type { InterruptPayload } from "./interrupts.js";
+import type { InterruptHandler } from "./run-thread.js";
+
+/** Answers from the answers file, keyed by normalized question. */
+export type InterruptAnswers = Map<string, string>;
+
+export type InterruptResolution =
+	| {
+			outcome: "resume";
+			action: InterruptAction;
+			resumeValue: Record<string, unknown>;
+	  }
+	| { outcome: "park" | "fail"; action: InterruptAction };
+
+const answersFileSchema = z.record(
+	z.string(),
+	z.union([z.string(), z.number(), z.boolean()]).transform(String),
+);
+
+/**
+ * Reads a YAML file mapping questions to answers, e.g.
+ * `"Are you legally authorized to work in Canada?": "Yes"`.
+ */
+export async function loadInterruptAnswers(
+	path: string | undefined,
+): Promise<InterruptAnswers> {
+	if (!path) {
+		return new Map();
+	}
+
+	const parsed = answersFileSchema.safeParse(
+		parseYaml(await readFile(path, "utf-8")) ?? {},
+	);
+	if (!parsed.success) {
+		throw new Error(
+			`Invalid answers file at ${path}:\n${z.prettifyError(parsed.error)}`,
+		);
+	}
+
+	return new Map(
+		Object.entries(parsed.data).map(([question, answer]) => [
+			normalizeQuestionKey(question),
+			answer,
+		]),
+	);
+}
+
+function getInterruptPolicy(type: InterruptType | undefined): InterruptPolicy {
+	const policy = type ? appConfig.interrupts.policies[type] : undefined;
+	return {
+		action: policy?.action ?? "prompt",
+		fallback: policy?.fallback ?? "park",
+		timeoutSeconds:
+			policy?.timeoutSeconds ?? appConfig.interrupts.timeoutSeconds,
+	};
+}
+
+/**
+ * Builds the resume value each node expects for an unattended approve or
+ * skip. Returns `undefined` when the action means nothing for the type.
+ */
+function buildDecision(
+	type: InterruptType | undefined,
+	action: "approve" | "skip",
+	payload: InterruptPayload,
+): Record<string, unknown> | undefined {
+	switch (type) {
+		case "missing_application_information":
+			return action === "approve"
+				? { type: "provide_information", additionalInformation: "" }
+				: { type: "skip" };
+		case "account_verification":
+			return {
+				type,
+				action: action === "approve" ? "verification_link_clicked" : "skip",
+			};
+		case "account_password":
+			return action === "skip" ? { type, action: "skip" } : undefined;
+		case "fit_confirmation":
+			return { type, action: action === "approve" ? "continue" : "skip" };
+		case "cover_letter_review":
+			return action === "approve"
+				? { type, action, coverLetter: payload.value?.coverLetter ?? "" }
+				: { type, action };
+		case "submission_approval":
+			return { type, action };
+		case "budget_exceeded":
+			return { type, action: action === "approve" ? "continue" : "stop" };
+		case "error_recovery":
+			return action === "skip" ? { type, action } : undefined;
+		default:
+			return undefined;
+	}
+}
+
+function answerFromFile(
+	payload: InterruptPayload,
+	answers: InterruptAnswers,
+): Record<string, unknown> | undefined {
+	const answered = (payload.value?.questions ?? []).flatMap((question) => {
+		const answer = answers.get(normalizeQuestionKey(question));
+		return answer ? [[question, answer] as const] : [];
+	});
+	if (answered.length === 0) {
+		return undefined;
+	}
+
+	return { type: "provide_information", answers: Object.fromEntries(answered) };
+}
+
+/**
+ * Runs the terminal prompt, aborting it once the timeout passes. Returns
+ * `"timeout"` in that case.
+ */
+async function promptWithTimeout(
+	payload: InterruptPayload,
+	prompt: InterruptHandler,
+	timeoutSeconds: number | undefined,
+): Promise<Record<string, unknown> | undefined | "timeout"> {
+	if (!timeoutSeconds) {
+		return prompt(payload);
+	}
+
+	const controller = new AbortController();
+	const timer = setTimeout(() => controller.abort(), timeoutSeconds * 1000);
+	try {
+		return await prompt(payload, controller.signal);
+	} catch (error) {
+		if (controller.signal.aborted) {
+			return "timeout";
+		}
+		throw error;
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+/**
+ * Answers an interrupt according to its configured policy: prompt in the
+ * terminal, answer from the answers file, approve, skip, park the thread or
+ * fail the run. Prompts that time out and questions the answers file does
+ * not cover get the policy's fallback action.
+ */
+export async function resolveInterrupt(
+	payload: InterruptPayload,
+	prompt: InterruptHandler,
+	answers: InterruptAnswers,
+): Promise<InterruptResolution> {
+	const parsedType = interruptTypeSchema.safeParse(payload.value?.type);
+	const type = parsedType.success ? parsedType.data : undefined;
+	const policy = getInterruptPolicy(type);
+
+	let action: InterruptAction = policy.action;
+	if (action === "prompt") {
+		const answer = await promptWithTimeout(
+			payload,
+			prompt,
+			policy.timeoutSeconds,
+		);
+		if (answer !== "timeout") {
+			return answer
+				? { outcome: "resume", action, resumeValue: answer }
+				: { outcome: "park", action };
+		}
+
+		logger.warn(
+			{
+				type,
+				timeoutSeconds: policy.timeoutSeconds,
+				fallback: policy.fallback,
+			},
+			"No answer before the interrupt timeout, applying the fallback action.",
+		);
+		action = policy.fallback;
+	} else if (action === "answers") {
+		const resumeValue = answerFromFile(payload, answers);
+		if (resumeValue) {
+			logger.info({ type }, "Answered interrupt from the answers file.");
+			return { outcome: "resume", action, resumeValue };
+		}
+
+		logger.warn(
+			{ type, questions: payload.value?.questions, fallback: policy.fallback },
+			"The answers file has no answer for these questions, applying the fallback action.",
+		);
+		action = policy.fallback;
+	}
+
+	logger.info({ type, action }, "Applying interrupt policy.");
+	if (action === "approve" || action === "skip") {
+		const resumeValue = buildDecision(type, action, payload);
+		return resumeValue
+			? { outcome: "resume", action, resumeValue }
+			: { outcome: "park", action };
+	}
+	return { outcome: action === "fail" ? "fail" : "park", action };
+}
@@ -0,0 +1,351 @@
+import { spawnSync } from "node:child_process";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Interface } from "node:readline/promises";
+import { logger } from "../index.js";
+import type { FieldSnapshot, FitAssessment } from "../states/state.js";
+import type { BudgetOverrun } from "./budget.js";
+import { formatFieldSnapshot } from "./field-snapshot.js";
+import type { UsageTotals } from "./usage.js";
+
+export type InterruptPayload = {
+	value?: {
+		type?: string;
+		message?: string;
+		reason?: string;
+		reviewSuggestions?: string[];
+		questions?: string[];
+		coverLetter?: string;
+		job?: string;
+		jobUrl?: string;
+		fitAssessment?: FitAssessment;
+		fieldSnapshot?: FieldSnapshot;
+		budget?: BudgetOverrun & { usage?: UsageTotals };
+		errorKind?: string;
+		node?: string;
+		pageUrl?: string;
+	};
+};
+
+export function getInterruptPayload(
+	result: unknown,
+): InterruptPayload | undefined {
+	if (!result || typeof result !== "object") {
+		return undefined;
+	}
+
+	const maybeInterrupt = (result as { __interrupt__?: unknown }).__interrupt__;
+	if (!Array.isArray(maybeInterrupt) || maybeInterrupt.length === 0) {
+		return undefined;
+	}
+
+	const firstInterrupt = maybeInterrupt[0];
+	if (!firstInterrupt || typeof firstInterrupt !== "object") {
+		return undefined;
+	}
+
+	return firstInterrupt as InterruptPayload;
+}
+
+/**
+ * Opens the text in $VISUAL/$EDITOR and returns the saved result, or undefined
+ * when the editor could not be started or exited with an error. The readline
+ * interface is paused so the editor gets the terminal to itself.
+ */
+function editInEditor(rl: Interface, text: string): string | undefined {
+	const directory = mkdtempSync(join(tmpdir(), "open-door-"));
+	const filePath = join(directory, "cover-letter.txt");
+	writeFileSync(filePath, text);
+	rl.pause();
+	try {
+		const editor = process.env.VISUAL ?? process.env.EDITOR ?? "vi";
+		const result = spawnSync(editor, [filePath], {
+			stdio: "inherit",
+			shell: true,
+		});
+		if (result.error || result.status !== 0) {
+			logger.warn(
+				{ editor, status: result.status, error: result.error?.message },
+				"The editor did not exit cleanly, keeping the cover letter unchanged.",
+			);
+			return undefined;
+		}
+		return readFileSync(filePath, "utf-8").trim();
+	} finally {
+		rl.resume();
+		rmSync(directory, { recursive: true, force: true });
+	}
+}
+
+/**
+ * A reply to an interrupt in the words of the terminal prompt: `text` is what
+ * would be typed at the single prompt ("done", a code, "approve", feedback,
+ * ...). The other fields carry what the terminal collects separately.
+ */
+export type InterruptReply = {
+	text?: string;
+	/** Answers to `missing_application_information` questions, by question. */
+	answers?: Record<string, string>;
+	/** Submission suggestions, instead of splitting `text` on ';'. */
+	suggestions?: string[];
+	/** The edited cover letter, when `text` is "edit". */
+	coverLetter?: string;
+};
+
+/**
+ * Builds the resume value the interrupting node expects from a reply, the
+ * same way for the terminal prompt and the review dashboard.
+ */
+export function buildInterruptResumeValue(
+	interruptPayload: InterruptPayload,
+	reply: InterruptReply,
+): Record<string, unknown> {
+	const interruptValue = interruptPayload.value;
+	const interruptType = interruptValue?.type;
+	const text = reply.text?.trim() ?? "";
+	const normalized = text.toLowerCase();
+
+	if (interruptType === "missing_application_information") {
+		return reply.answers
+			? { type: "provide_information", answers: reply.answers }
+			: { type: "provide_information", additionalInformation: text };
+	}
+
+	if (interruptType === "account_verification") {
+		return normalized === "done"
+			? {
+					type: "account_verification",
+					action: "verification_link_clicked",
+				}
+			: {
+					type: "account_verification",
+					action: "provide_verification_code",
+					verificationCode: text,
+				};
+	}
+
+	if (interruptType === "account_password") {
+		return {
+			type: "account_password",
+			action: "provide_password",
+			password: text,
+		};
+	}
+
+	if (interruptType === "fit_confirmation") {
+		return {
+			type: "fit_confirmation",
+			action: ["yes", "y"].includes(normalized) ? "continue" : "skip",
+		};
+	}
+
+	if (interruptType === "cover_letter_review") {
+		if (normalized === "approve") {
+			return {
+				type: "cover_letter_review",
+				action: "approve",
+				coverLetter: interruptValue?.coverLetter ?? "",
+			};
+		}
+		if (normalized === "skip") {
+			return { type: "cover_letter_review", action: "skip" };
+		}
+		if (normalized === "edit") {
+			return {
+				type: "cover_letter_review",
+				action: "edit",
+				coverLetter: reply.coverLetter?.trim() ?? "",
+			};
+		}
+		return { type: "cover_letter_review", action: "revise", feedback: text };
+	}
+
+	if (interruptType === "budget_exceeded") {
+		const limit = Number(text);
+		if (normalized === "continue" || (text && Number.isFinite(limit))) {
+			return normalized === "continue"
+				? { type: "budget_exceeded", action: "continue" }
+				: { type: "budget_exceeded", action: "continue", limit };
+		}
+		return { type: "budget_exceeded", action: "stop" };
+	}
+
+	if (interruptType === "error_recovery") {
+		return {
+			type: "error_recovery",
+			action: normalized === "skip" ? "skip" : "retry",
+		};
+	}
+
+	if (normalized === "approve") {
+		return { action: "approve" };
+	}
+	return {
+		action: "modify",
+		suggestions: (reply.suggestions ?? text.split(";"))
+			.map((suggestion) => suggestion.trim())
+			.filter((suggestion) => suggestion.length > 0),
+	};
+}
+
+/**
+ * Asks the user about a pending interrupt in the terminal and builds the
+ * resume value the interrupting node expects. Aborting the signal cancels
+ * the pending question.
+ */
+export async function promptInterruptResumeValue(
+	rl: Interface,
+	interruptPayload: InterruptPayload,
+	signal?: AbortSignal,
+): Promise<Record<string, unknown>> {
+	const ask = (query: string) =>
+		signal ? rl.question(query, { signal }) : rl.question(query);
+	const interruptValue = interruptPayload.value;
+	const interruptType = interruptValue?.type;
+
+	if (interruptType === "missing_application_information") {
+		if (interruptValue?.reason) {
+			logger.info(
+				{ reason: interruptValue.reason },
+				"Fill form interruption reason",
+			);
+		}
+
+		const message =
+			interruptValue?.message ??
+			"The application form needs more information. Provide missing details to continue.";
+
+		const questions = interruptValue?.questions ?? [];
+		if (questions.length > 0) {
+			// One prompt per question so each answer can be saved to the answer bank.
+			console.log(message);
+			const answers: Record<string, string> = {};
+			for (const question of questions) {
+				answers[question] = (await ask(`${question}\n> `)).trim();
+			}
+
+			return buildInterruptResumeValue(interruptPayload, { answers });
+		}
+
+		const answer = await ask(`${message}\n> `);
+		return buildInterruptResumeValue(interruptPayload, { text: answer });
+	}
+
+	if (interruptType === "account_verification") {
+		if (interruptValue?.reason) {
+			logger.info(
+				{ reason: interruptValue.reason },
+				"Account verification interruption reason",
+			);
+		}
+
+		const message =
+			interruptValue?.message ??
+			"Email verification is required. Paste the verification code, or type 'done' after clicking the verification link.";
+		const answer = await ask(`${message}\n> `);
+		return buildInterruptResumeValue(interruptPayload, { text: answer });
+	}
+
+	if (interruptType === "account_password") {
+		if (interruptValue?.reason) {
+			logger.info(
+				{ reason: interruptValue.reason },
+				"Account password interruption reason",
+			);
+		}
+
+		const message =
+			interruptValue?.message ??
+			"Please provide your account password to continue login.";
+		const answer = await ask(`${message}\n> `);
+		return buildInterruptResumeValue(interruptPayload, { text: answer });
+	}
+
+	if (interruptType === "fit_confirmation") {
+		const fitAssessment = interruptValue?.fitAssessment;
+		if (fitAssessment) {
+			console.log(
+				`\n${interruptValue?.job ?? interruptValue?.jobUrl ?? "This posting"}: fit score ${fitAssessment.score}/100`,
+			);
+			for (const reason of fitAssessment.reasons) {
+				console.log(`  - ${reason}`);
+			}
+			for (const constraint of fitAssessment.failedConstraints) {
+				console.log(`  x ${constraint}`);
+			}
+		}
+
+		const message =
+			interruptValue?.message ?? "This posting looks like a poor fit.";
+		const answer = await ask(`${message} (yes/no)\n> `);
+		return buildInterruptResumeValue(interruptPayload, { text: answer });
+	}
+
+	if (interruptType === "cover_letter_review") {
+		const coverLetter = interruptValue?.coverLetter ?? "";
+		console.log(`\n${coverLetter}\n`);
+
+		const message =
+			"Type 'approve' to use this cover letter, 'edit' to change it in your editor, 'skip' to continue without one, or feedback to redraft it.";
+		// A failed edit asks again instead of failing the run.
+		while (true) {
+			const answer = (await ask(`${message}\n> `)).trim();
+			if (answer.toLowerCase() !== "edit") {
+				return buildInterruptResumeValue(interruptPayload, { text: answer });
+			}
+
+			const edited = editInEditor(rl, coverLetter);
+			if (edited !== undefined) {
+				return buildInterruptResumeValue(interruptPayload, {
+					text: answer,
+					coverLetter: edited,
+				});
+			}
+		}
+	}
+
+	if (interruptType === "budget_exceeded") {
+		console.log(
+			`\n${interruptValue?.job ?? interruptValue?.jobUrl ?? "This run"}: ${interruptValue?.reason ?? "a run budget was reached."}`,
+		);
+		const message =
+			"Type 'stop' to end the run, 'continue' to go on without this limit, or a higher limit to go on until it.";
+		const answer = await ask(`${message}\n> `);
+		return buildInterruptResumeValue(interruptPayload, { text: answer });
+	}
+
+	if (interruptType === "error_recovery") {
+		console.log(
+			`\n${interruptValue?.job ?? interruptValue?.jobUrl ?? "This run"}: ${interruptValue?.reason ?? "a step failed."}${interruptValue?.pageUrl ? `\nPage: ${interruptValue.pageUrl}` : ""}`,
+		);
+		const message =
+			"Fix the page in the browser if needed, then type 'retry' to run the step again, or 'skip' to skip this application.";
+		const answer = await ask(`${message}\n> `);
+		return buildInterruptResumeValue(interruptPayload, { text: answer });
+	}
+
+	const message =
+		interruptValue?.message ??
+		"Review submission: type 'approve' to submit, or provide modification suggestions separated by ';'.";
+
+	if (interruptValue?.job || interruptValue?.jobUrl) {
+		console.log(
+			`\nApplying to: ${interruptValue.job ?? "unknown job"}${interruptValue.jobUrl ? `\n${interruptValue.jobUrl}` : ""}\n`,
+		);
+	}
+
+	if (interruptValue?.fieldSnapshot) {
+		console.log(`${formatFieldSnapshot(interruptValue.fieldSnapshot)}\n`);
+	}
+
+	if (interruptValue?.reviewSuggestions?.length) {
+		logger.info(
+			{ reviewSuggestions: interruptValue.reviewSuggestions },
+			"Review suggestions from interrupt",
+		);
+	}
+
+	const answer = await ask(`${message}\n> `);
+	return buildInterruptResumeValue(interruptPayload, { text: answer });
+}
@@ -0,0 +1,56 @@
+import type { JobPosting } from "../states/state.js";
+
+const atsHostPatterns: [vendor: string, pattern: RegExp][] = [
+	["greenhouse", /(^|\.)greenhouse\.io$/],
+	["lever", /(^|\.)lever\.co$/],
+	["workday", /(^|\.)(myworkdayjobs|myworkdaysite|workday)\.com$/],
+	["ashby", /(^|\.)ashbyhq\.com$/],
+	["smartrecruiters", /(^|\.)smartrecruiters\.com$/],
+	["icims", /(^|\.)icims\.com$/],
+	["taleo", /(^|\.)taleo\.net$/],
+	["successfactors", /(^|\.)(successfactors\.(com|eu)|sapsf\.com)$/],
+	["jobvite", /(^|\.)jobvite\.com$/],
+	["bamboohr", /(^|\.)bamboohr\.com$/],
+	["workable", /(^|\.)workable\.com$/],
+];
+
+/**
+ * Recognizes the ATS from the posting URL. Returns `undefined` for company
+ * career sites, where the page content has to tell.
+ */
+export function detectAtsVendorFromUrl(url: string): string | undefined {
+	let hostname: string;
+	try {
+		hostname = new URL(url).hostname.toLowerCase();
+	} catch {
+		return undefined;
+	}
+
+	return atsHostPatterns.find(([, pattern]) => pattern.test(hostname))?.[0];
+}
+
+/**
+ * One-line label for logs and prompts, e.g. "Software Developer Co-op at
+ * Acme (Vancouver, BC)".
+ */
+export function describeJobPosting(
+	jobPosting: JobPosting | undefined,
+): string | undefined {
+	if (!jobPosting?.title && !jobPosting?.company) {
+		return undefined;
+	}
+
+	const title = jobPosting.title ?? "Unknown role";
+	const company = jobPosting.company ? ` at ${jobPosting.company}` : "";
+	const location = jobPosting.location ? ` (${jobPosting.location})` : "";
+	return `${title}${company}${location}`;
+}
+
+/**
+ * Renders the posting for fill prompts without the long description, which
+ * the form does not need.
+ */
+export function formatJobPostingForPrompt(jobPosting: JobPosting): string {
+	const { description: _description, ...summary } = jobPosting;
+	return `Job being applied to:\n${JSON.stringify(summary, null, 2)}`;
+}
@@ -0,0 +1,175 @@
+import { readFile } from "node:fs/promises";
+import { dirname, extname, isAbsolute, resolve } from "node:path";
+import { parse as parseYaml } from "yaml";
+import z from "zod";
+
+export const jobQueueEntrySchema = z.object({
+	jobUrl: z.url(),
+	resumePath: z
+		.string()
+		.min(1)
+		.optional()
+		.describe("Overrides the batch-wide resume for this job."),
+	extraPromptsPath: z
+		.string()
+		.min(1)
+		.optional()
+		.describe("Overrides the batch-wide extra prompts file for this job."),
+});
+
+export type JobQueueEntry = z.infer<typeof jobQueueEntrySchema>;
+
+const columnAliases: Record<string, keyof JobQueueEntry> = {
+	joburl: "jobUrl",
+	url: "jobUrl",
+	resumepath: "resumePath",
+	resume: "resumePath",
+	extrapromptspath: "extraPromptsPath",
+	extraprompts: "extraPromptsPath",
+};
+
+function normalizeColumnName(column: string): keyof JobQueueEntry | undefined {
+	return columnAliases[column.toLowerCase().replace(/[^a-z]/g, "")];
+}
+
+function parseCsvRows(content: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let inQuotes = false;
+
+	for (let index = 0; index < content.length; index += 1) {
+		const char = content[index];
+
+		if (inQuotes) {
+			if (char === '"' && content[index + 1] === '"') {
+				field += '"';
+				index += 1;
+			} else if (char === '"') {
+				inQuotes = false;
+			} else {
+				field += char;
+			}
+			continue;
+		}
+
+		if (char === '"') {
+			inQuotes = true;
+		} else if (char === ",") {
+			row.push(field);
+			field = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && content[index + 1] === "\n") {
+				index += 1;
+			}
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = "";
+		} else {
+			field += char;
+		}
+	}
+
+	if (field.length > 0 || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+
+	return rows.filter((cells) => cells.some((cell) => cell.trim().length > 0));
+}
+
+function parseCsvQueue(content: string): unknown[] {
+	const [header, ...rows] = parseCsvRows(content);
+	if (!header) {
+		return [];
+	}
+
+	const columns = header.map((column) => normalizeColumnName(column.trim()));
+	if (!columns.includes("jobUrl")) {
+		// Header-less CSV: treat the first column as the job URL.
+		return [header, ...rows].map((cells) => ({ jobUrl: cells[0]?.trim() }));
+	}
+
+	return rows.map((cells) => {
+		const entry: Record<string, string> = {};
+		columns.forEach((column, index) => {
+			const value = cells[index]?.trim();
+			if (column && value) {
+				entry[column] = value;
+			}
+		});
+		return entry;
+	});
+}
+
+function parseStructuredQueue(parsed: unknown): unknown[] {
+	const entries =
+		parsed && typeof parsed === "object" && !Array.isArray(parsed)
+			? (parsed as { jobs?: unknown }).jobs
+			: parsed;
+
+	if (!Array.isArray(entries)) {
+		throw new Error(
+			"Job queue must be a list of jobs, or an object with a `jobs` list.",
+		);
+	}
+
+	return entries.map((entry) =>
+		typeof entry === "string" ? { jobUrl: entry } : entry,
+	);
+}
+
+function resolveRelativePath(
+	path: string | undefined,
+	baseDir: string,
+): string | undefined {
+	if (!path) {
+		return undefined;
+	}
+
+	return isAbsolute(path) ? path : resolve(baseDir, path);
+}
+
+/**
+ * Loads a queue of job postings from a CSV, JSON or YAML file. Relative
+ * resume/extra-prompts paths are resolved against the queue file location.
+ */
+export async function loadJobQueue(
+	queuePath: string,
+): Promise<JobQueueEntry[]> {
+	const content = await readFile(queuePath, "utf-8");
+	const extension = extname(queuePath).toLowerCase();
+
+	let rawEntries: unknown[];
+	if (extension === ".csv") {
+		rawEntries = parseCsvQueue(content);
+	} else if (extension === ".json") {
+		rawEntries = parseStructuredQueue(JSON.parse(content));
+	} else if (extension === ".yaml" || extension === ".yml") {
+		rawEntries = parseStructuredQueue(parseYaml(content));
+	} else {
+		throw new Error(
+			`Unsupported job queue format "${extension}". Use .csv, .json, .yaml or .yml.`,
+		);
+	}
+
+	const baseDir = dirname(resolve(queuePath));
+	return rawEntries.map((rawEntry, index) => {
+		const parsed = jobQueueEntrySchema.safeParse(rawEntry);
+		if (!parsed.success) {
+			throw new Error(
+				`Invalid job queue entry #${index + 1}: ${z.prettifyError(parsed.error)}`,
+			);
+		}
+
+		return {
+			jobUrl: parsed.data.jobUrl,
+			resumePath: resolveRelativePath(parsed.data.resumePath, baseDir),
+			extraPromptsPath: resolveRelativePath(
+				parsed.data.extraPromptsPath,
+				baseDir,
+			),
+		};
+	});
+}
@@ -0,0 +1,30 @@
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { logger } from "../index.js";
+
+/**
+ * Reads the values of a JSONL file, or none when it does not exist. A line
+ * that is not valid JSON, e.g. one cut short by a crash, is skipped with a
+ * warning rather than hiding the rest of the file.
+ */
+export async function readJsonLines(path: string): Promise<unknown[]> {
+	if (!existsSync(path)) {
+		return [];
+	}
+
+	const values: unknown[] = [];
+	const lines = (await readFile(path, "utf-8")).split("\n");
+	for (const [index, line] of lines.entries()) {
+		if (!line.trim()) {
+			continue;
+		}
+
+		try {
+			values.push(JSON.parse(line));
+		} catch (error) {
+			logger.warn({ error, path, line: index + 1 }, "Skipping unreadable line");
+		}
+	}
+
+	return values;
+}
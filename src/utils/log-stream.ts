@@ -0,0 +1,50 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { EventEmitter } from "node:events";
+
+export type LogEntry = {
+	time: string;
+	level: string;
+	msg: string;
+	threadId?: string;
+	data?: Record<string, unknown>;
+};
+
+/** Thread the current async call chain is working on, for log attribution. */
+export const logContext = new AsyncLocalStorage<{ threadId: string }>();
+
+/** Emits `("log", entry)` for every log line, for the `serve` event stream. */
+export const logEmitter = new EventEmitter<{ log: [entry: LogEntry] }>();
+
+/**
+ * pino `logMethod` hook that mirrors each log call to `logEmitter`. Only
+ * runs the formatting when something is listening.
+ */
+export function mirrorLogCall(args: unknown[], level: string): void {
+	if (logEmitter.listenerCount("log") === 0) {
+		return;
+	}
+
+	const [first, second] = args;
+	const data =
+		first && typeof first === "object" && !Array.isArray(first)
+			? Object.fromEntries(
+					Object.entries(first).map(([key, value]) => [
+						key,
+						// Error fields are not enumerable and would serialize to {}.
+						value instanceof Error ? { message: value.message } : value,
+					]),
+				)
+			: undefined;
+	const msg = data ? second : first;
+	const threadId =
+		(typeof data?.threadId === "string" ? data.threadId : undefined) ??
+		logContext.getStore()?.threadId;
+
+	logEmitter.emit("log", {
+		time: new Date().toISOString(),
+		level,
+		msg: typeof msg === "string" ? msg : String(msg ?? ""),
+		threadId,
+		data,
+	});
+}
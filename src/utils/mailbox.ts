@@ -0,0 +1,324 @@
+import { ImapFlow } from "imapflow";
+import { simpleParser } from "mailparser";
+import { logger } from "../index.js";
+import { appConfig, type MailboxConfig } from "./config.js";
+import { envVars } from "./env.js";
+import { detectAtsVendorFromUrl } from "./job-posting.js";
+
+export type VerificationEmail = {
+	from: string;
+	subject: string;
+	receivedAt: string;
+	code?: string;
+	link?: string;
+};
+
+/** Domains ATS send account emails from, when they differ from the site. */
+const atsSenderDomains: Record<string, string[]> = {
+	workday: ["myworkday.com", "workday.com"],
+	taleo: ["taleo.net", "oracle.com", "oraclecloud.com"],
+	successfactors: ["successfactors.com", "successfactors.eu", "sap.com"],
+	icims: ["icims.com"],
+	smartrecruiters: ["smartrecruiters.com"],
+	greenhouse: ["greenhouse.io"],
+	lever: ["lever.co"],
+};
+
+const codeNearKeywordPattern =
+	/\b(?:code|passcode|pin|otp)\b[^A-Za-z0-9]{0,20}(?:is\b[^A-Za-z0-9]{0,5})?([A-Za-z0-9-]{4,12})\b/gi;
+const standaloneCodePattern = /\b(\d{6,8})\b/;
+const verificationLinkPattern =
+	/verif|confirm|activat|validat|magic|token|registration/i;
+
+export function getMailboxSettings():
+	| (MailboxConfig & { password: string })
+	| undefined {
+	const mailbox = appConfig.mailbox;
+	if (!mailbox || !envVars.IMAP_PASSWORD) {
+		return undefined;
+	}
+	return { ...mailbox, password: envVars.IMAP_PASSWORD };
+}
+
+/**
+ * Registrable domain of a host, e.g. `acme.wd5.myworkdayjobs.com` ->
+ * `myworkdayjobs.com`. Handles two-part country suffixes such as `co.uk`.
+ */
+function registrableDomain(host: string): string {
+	const labels = host.toLowerCase().replace(/\.$/, "").split(".");
+	const topLevel = labels[labels.length - 1] ?? "";
+	const secondLevel = labels[labels.length - 2] ?? "";
+	const keep =
+		labels.length > 2 && topLevel.length === 2 && secondLevel.length <= 3
+			? 3
+			: 2;
+	return labels.slice(-keep).join(".");
+}
+
+/**
+ * Sender domains that count as "the employer": the application site, the
+ * posting site, the ATS behind them and any configured extras.
+ */
+export function getVerificationSenderDomains(urls: string[]): string[] {
+	const domains = new Set(appConfig.mailbox?.senderDomains ?? []);
+	for (const url of urls) {
+		try {
+			domains.add(registrableDomain(new URL(url).hostname));
+		} catch {
+			continue;
+		}
+		const vendor = detectAtsVendorFromUrl(url);
+		for (const domain of vendor ? (atsSenderDomains[vendor] ?? []) : []) {
+			domains.add(domain);
+		}
+	}
+	return [...domains].map((domain) => domain.toLowerCase());
+}
+
+function isFromDomain(address: string, domains: string[]): boolean {
+	const domain = address.toLowerCase().slice(address.lastIndexOf("@") + 1);
+	return domains.some(
+		(allowed) => domain === allowed || domain.endsWith(`.${allowed}`),
+	);
+}
+
+function decodeHtmlEntities(text: string): string {
+	return text
+		.replace(/&nbsp;/g, " ")
+		.replace(/&amp;/g, "&")
+		.replace(/&quot;/g, '"')
+		.replace(/&#39;/g, "'")
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">");
+}
+
+/** The visible text of an HTML body, for emails sent without a text part. */
+function htmlToText(html: string): string {
+	return decodeHtmlEntities(
+		html
+			.replace(/<(style|script|head)\b[\s\S]*?<\/\1>/gi, " ")
+			.replace(/<[^>]+>/g, " "),
+	).replace(/[ \t]+/g, " ");
+}
+
+function findCode(text: string): string | undefined {
+	for (const match of text.matchAll(codeNearKeywordPattern)) {
+		const candidate = match[1];
+		if (candidate && /\d/.test(candidate)) {
+			return candidate;
+		}
+	}
+	if (/verif|code|confirm/i.test(text)) {
+		return standaloneCodePattern.exec(text)?.[1];
+	}
+	return undefined;
+}
+
+/**
+ * Pulls a verification code (digits or mixed, next to "code", "PIN" or
+ * "OTP", else a standalone 6-8 digit number) and a verification link out of
+ * an email. The code is looked for in the HTML body too when the text part
+ * has none, as some senders only put it there.
+ */
+export function extractVerification(content: {
+	subject?: string;
+	text?: string;
+	html?: string | false;
+}): { code?: string; link?: string } {
+	const text = `${content.subject ?? ""}\n${content.text ?? ""}`;
+
+	const code =
+		findCode(text) ??
+		(content.html
+			? findCode(`${content.subject ?? ""}\n${htmlToText(content.html)}`)
+			: undefined);
+
+	const links: { url: string; label: string }[] = [];
+	for (const match of (content.html || "").matchAll(
+		/<a\b[^>]*href=["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi,
+	)) {
+		links.push({
+			url: decodeHtmlEntities(match[1] ?? ""),
+			label: (match[2] ?? "").replace(/<[^>]+>/g, " "),
+		});
+	}
+	for (const match of text.matchAll(/https?:\/\/[^\s<>")\]]+/g)) {
+		links.push({ url: match[0], label: "" });
+	}
+	const link = links.find(
+		({ url, label }) =>
+			/^https?:\/\//i.test(url) &&
+			!/unsubscribe|privacy|preferences/i.test(url) &&
+			(verificationLinkPattern.test(url) ||
+				verificationLinkPattern.test(label)),
+	)?.url;
+
+	return { code, link };
+}
+
+function createImapClient(
+	settings: MailboxConfig & { password: string },
+): ImapFlow {
+	return new ImapFlow({
+		host: settings.host,
+		port: settings.port,
+		secure: settings.secure,
+		auth: { user: settings.user, pass: settings.password },
+		tls: { rejectUnauthorized: settings.rejectUnauthorized },
+		logger: false,
+	});
+}
+
+/**
+ * Lists messages received since `since` from one of the sender domains,
+ * newest first, with whatever verification code or link they contain.
+ */
+async function findVerificationEmails(
+	client: ImapFlow,
+	folder: string,
+	options: { senderDomains: string[]; since: Date; seen: Set<number> },
+): Promise<VerificationEmail[]> {
+	const lock = await client.getMailboxLock(folder);
+	try {
+		// IMAP SINCE only has day granularity, the exact time is checked below.
+		const uids =
+			(await client.search({ since: options.since }, { uid: true })) || [];
+		const newUids = uids.filter((uid) => !options.seen.has(uid));
+		if (newUids.length === 0) {
+			return [];
+		}
+
+		const emails: VerificationEmail[] = [];
+		for (const message of await client.fetchAll(
+			newUids,
+			{ envelope: true, internalDate: true, source: true },
+			{ uid: true },
+		)) {
+			options.seen.add(message.uid);
+			const from = message.envelope?.from?.[0]?.address ?? "";
+			const receivedAt = new Date(message.internalDate ?? 0);
+			if (
+				receivedAt < options.since ||
+				!isFromDomain(from, options.senderDomains) ||
+				!message.source
+			) {
+				continue;
+			}
+
+			const parsed = await simpleParser(message.source);
+			const verification = extractVerification({
+				subject: parsed.subject,
+				text: parsed.text,
+				html: parsed.html,
+			});
+			if (verification.code || verification.link) {
+				emails.push({
+					from,
+					subject: parsed.subject ?? "",
+					receivedAt: receivedAt.toISOString(),
+					...verification,
+				});
+			}
+		}
+
+		return emails.sort((a, b) => b.receivedAt.localeCompare(a.receivedAt));
+	} finally {
+		lock.release();
+	}
+}
+
+/**
+ * Polls the configured mailbox until a verification email from one of the
+ * sender domains arrives, or the timeout passes. Returns `undefined` when no
+ * mailbox is configured, nothing arrived or the mailbox is unreachable, so
+ * callers can fall back to asking the user.
+ */
+export async function waitForVerificationEmail(options: {
+	senderDomains: string[];
+	since: Date;
+	timeoutMs?: number;
+}): Promise<VerificationEmail | undefined> {
+	const settings = getMailboxSettings();
+	if (!settings) {
+		return undefined;
+	}
+
+	const deadline =
+		Date.now() + (options.timeoutMs ?? settings.timeoutSeconds * 1000);
+	const seen = new Set<number>();
+	const client = createImapClient(settings);
+	// ImapFlow emits socket errors as events; without a listener they crash the process.
+	client.on("error", (error: unknown) => {
+		logger.warn({ error }, "IMAP connection error");
+	});
+
+	try {
+		await client.connect();
+		logger.info(
+			{ senderDomains: options.senderDomains, folder: settings.folder },
+			"Waiting for a verification email.",
+		);
+
+		for (;;) {
+			const [email] = await findVerificationEmails(client, settings.folder, {
+				senderDomains: options.senderDomains,
+				since: options.since,
+				seen,
+			});
+			if (email) {
+				logger.info(
+					{ from: email.from, subject: email.subject, hasLink: !!email.link },
+					"Verification email received.",
+				);
+				return email;
+			}
+
+			const remainingMs = deadline - Date.now();
+			if (remainingMs <= 0) {
+				logger.info("No verification email arrived before the timeout.");
+				return undefined;
+			}
+			await new Promise((resolve) =>
+				setTimeout(
+					resolve,
+					Math.min(remainingMs, settings.pollIntervalSeconds * 1000),
+				),
+			);
+		}
+	} catch (error) {
+		logger.warn({ error }, "Unable to read the verification mailbox");
+		return undefined;
+	} finally {
+		await client.logout().catch(() => undefined);
+	}
+}
+
+/**
+ * Connects with the configured settings and lists recent verification
+ * emails, to check the mailbox setup without running an application.
+ */
+export async function listRecentVerificationEmails(options: {
+	senderDomains: string[];
+	since: Date;
+}): Promise<VerificationEmail[]> {
+	const settings = getMailboxSettings();
+	if (!settings) {
+		throw new Error(
+			"No mailbox configured. Add a `mailbox` section to the config file and set IMAP_PASSWORD.",
+		);
+	}
+
+	const client = createImapClient(settings);
+	client.on("error", (error: unknown) => {
+		logger.warn({ error }, "IMAP connection error");
+	});
+	await client.connect();
+	try {
+		return await findVerificationEmails(client, settings.folder, {
+			...options,
+			seen: new Set(),
+		});
+	} finally {
+		await client.logout().catch(() => undefined);
+	}
+}
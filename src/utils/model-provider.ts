@@ -0,0 +1,161 @@
+import type { ModelConfiguration } from "@browserbasehq/stagehand";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { initChatModel } from "langchain";
+import { envVars, type ModelProvider, modelProviderSchema } from "./env.js";
+
+/**
+ * Everything needed to build a model for either LangChain or Stagehand, so
+ * both always talk to the same provider.
+ */
+export type ModelSettings = {
+	provider: ModelProvider;
+	/** Model name without a provider prefix, e.g. `gemini-2.5-flash`. */
+	modelName: string;
+	apiKey?: string;
+	baseURL?: string;
+	temperature?: number;
+};
+
+const DEFAULT_OLLAMA_BASE_URL = "http://localhost:11434";
+
+const providersRequiringApiKey: ModelProvider[] = [
+	"google",
+	"openai",
+	"anthropic",
+];
+
+const langchainProviders: Record<ModelProvider, string> = {
+	google: "google-genai",
+	openai: "openai",
+	anthropic: "anthropic",
+	"openai-compatible": "openai",
+	ollama: "openai",
+};
+
+const stagehandProviders: Record<ModelProvider, string> = {
+	google: "google",
+	openai: "openai",
+	anthropic: "anthropic",
+	"openai-compatible": "openai",
+	ollama: "ollama",
+};
+
+/**
+ * Splits a `provider/model` name. Only known provider prefixes are split off,
+ * so model names that contain slashes (e.g. `meta-llama/Llama-3.1-8B`) survive.
+ */
+export function parseModelName(modelName: string): {
+	provider?: ModelProvider;
+	modelName: string;
+} {
+	const separatorIndex = modelName.indexOf("/");
+	const prefix = modelName.slice(0, separatorIndex);
+	const parsed = modelProviderSchema.safeParse(prefix);
+	if (separatorIndex > 0 && parsed.success) {
+		return {
+			provider: parsed.data,
+			modelName: modelName.slice(separatorIndex + 1),
+		};
+	}
+	return { modelName };
+}
+
+/**
+ * Resolves model settings from a model name plus overrides. A provider
+ * prefix in the name is used when no provider is given explicitly, then
+ * MODEL_PROVIDER; the default is Google, as before providers were configurable.
+ */
+export function resolveModelSettings(options: {
+	modelName: string;
+	provider?: ModelProvider;
+	apiKey?: string;
+	/** Env var the API key came from, for error messages. */
+	apiKeyEnv?: string;
+	baseURL?: string;
+	temperature?: number;
+}): ModelSettings {
+	const parsed = parseModelName(options.modelName);
+	const provider =
+		options.provider ?? parsed.provider ?? envVars.MODEL_PROVIDER ?? "google";
+	const baseURL =
+		options.baseURL ??
+		(provider === "ollama" ? DEFAULT_OLLAMA_BASE_URL : undefined);
+
+	if (providersRequiringApiKey.includes(provider) && !options.apiKey) {
+		throw new Error(
+			`${options.apiKeyEnv ?? "AI_API_KEY"} is required for the ${provider} model provider.`,
+		);
+	}
+	if (provider === "openai-compatible" && !baseURL) {
+		throw new Error(
+			"MODEL_BASE_URL is required for the openai-compatible model provider.",
+		);
+	}
+
+	return {
+		provider,
+		modelName: parsed.modelName,
+		apiKey: options.apiKey,
+		baseURL: baseURL?.replace(/\/+$/, ""),
+		temperature: options.temperature,
+	};
+}
+
+export function getDefaultModelSettings(): ModelSettings {
+	return resolveModelSettings({
+		modelName: envVars.MODEL_NAME,
+		provider: envVars.MODEL_PROVIDER,
+		apiKey: envVars.AI_API_KEY,
+		baseURL: envVars.MODEL_BASE_URL,
+	});
+}
+
+/**
+ * Model configuration for `new Stagehand({ model })` and
+ * `stagehand.agent({ model })`.
+ */
+export function toStagehandModel(settings: ModelSettings): ModelConfiguration {
+	let baseURL = settings.baseURL;
+	if (settings.provider === "ollama" && baseURL && !baseURL.endsWith("/api")) {
+		// The Ollama AI SDK provider talks to the native API under /api.
+		baseURL = `${baseURL}/api`;
+	}
+
+	return {
+		modelName: `${stagehandProviders[settings.provider]}/${settings.modelName}`,
+		// Local servers accept any key, but the OpenAI client insists on one.
+		apiKey:
+			settings.apiKey ??
+			(settings.provider === "openai-compatible" ? "not-needed" : undefined),
+		baseURL,
+		temperature: settings.temperature,
+	};
+}
+
+export async function createChatModel(
+	settings: ModelSettings,
+): Promise<BaseChatModel> {
+	const { provider, baseURL } = settings;
+	const usesOpenAIClient =
+		provider === "openai" ||
+		provider === "openai-compatible" ||
+		provider === "ollama";
+	// Ollama serves an OpenAI-compatible API under /v1.
+	const openAIBaseURL =
+		provider === "ollama" && baseURL && !baseURL.endsWith("/v1")
+			? `${baseURL}/v1`
+			: baseURL;
+
+	return initChatModel(settings.modelName, {
+		modelProvider: langchainProviders[provider],
+		apiKey: settings.apiKey ?? (usesOpenAIClient ? "not-needed" : undefined),
+		temperature: settings.temperature ?? 0,
+		...(usesOpenAIClient && openAIBaseURL
+			? { configuration: { baseURL: openAIBaseURL } }
+			: {}),
+		...(provider === "anthropic" && baseURL
+			? { anthropicApiUrl: baseURL }
+			: {}),
+		...(provider === "google" && baseURL ? { baseUrl: baseURL } : {}),
+	});
+}
@@ -0,0 +1,135 @@
+import { logger } from "../index.js";
+import {
+	appConfig,
+	type ModelEndpointConfig,
+	type ModelTask,
+} from "./config.js";
+import { classifyError, withRetry } from "./errors.js";
+import {
+	getDefaultModelSettings,
+	type ModelSettings,
+	parseModelName,
+	resolveModelSettings,
+} from "./model-provider.js";
+import { trackStagehandUsage } from "./usage.js";
+
+export type ModelRoute = {
+	task: ModelTask;
+	primary: ModelSettings;
+	fallback?: ModelSettings;
+	maxSteps?: number;
+};
+
+/**
+ * Resolves a configured model. The API key and base URL of the default
+ * model are reused only when the endpoint runs on the same provider.
+ */
+function resolveEndpoint(endpoint: ModelEndpointConfig): ModelSettings {
+	const defaults = getDefaultModelSettings();
+	const provider =
+		endpoint.provider ??
+		parseModelName(endpoint.model).provider ??
+		defaults.provider;
+	const sameProvider = provider === defaults.provider;
+
+	return resolveModelSettings({
+		modelName: endpoint.model,
+		provider,
+		// Never send the default provider's key to another provider.
+		apiKey: endpoint.apiKeyEnv
+			? process.env[endpoint.apiKeyEnv]
+			: sameProvider
+				? defaults.apiKey
+				: undefined,
+		apiKeyEnv:
+			endpoint.apiKeyEnv ??
+			(sameProvider ? undefined : `An apiKeyEnv entry for ${endpoint.model}`),
+		baseURL: endpoint.baseURL ?? (sameProvider ? defaults.baseURL : undefined),
+		temperature: endpoint.temperature,
+	});
+}
+
+/**
+ * Picks the models for a task from the `models` config section. A task
+ * without its own model runs on MODEL_NAME, with any temperature, step
+ * limit or fallback it configures.
+ */
+export function getModelRoute(task: ModelTask): ModelRoute {
+	const route = appConfig.models[task];
+	const fallback = route?.fallback ?? appConfig.models.fallback;
+
+	return {
+		task,
+		primary: route?.model
+			? resolveEndpoint({ ...route, model: route.model })
+			: {
+					...getDefaultModelSettings(),
+					temperature: route?.temperature,
+				},
+		fallback: fallback ? resolveEndpoint(fallback) : undefined,
+		maxSteps: route?.maxSteps,
+	};
+}
+
+/**
+ * Stagehand agents report model errors as a failed result instead of
+ * throwing, with this message prefix.
+ */
+export function isAgentModelFailure(result: {
+	success: boolean;
+	message: string;
+}): boolean {
+	return !result.success && result.message.startsWith("Failed to execute task");
+}
+
+/**
+ * Runs a Stagehand call on the task's primary model and, when it throws or
+ * `isFailure` flags its result, once more on the fallback model. Rate
+ * limits and server errors are retried with backoff on each model first.
+ * Each attempt's usage is recorded against the model it ran on.
+ *
+ * With `retry: false` a thrown error is passed on as is, for calls that
+ * must not run twice, like the final submit click: a click that loaded the
+ * next page may throw a navigation timeout after it went through.
+ */
+export async function runWithModelFallback<T>(
+	route: ModelRoute,
+	runOnModel: (settings: ModelSettings) => Promise<T>,
+	isFailure?: (result: T) => boolean,
+	options: { retry?: boolean } = {},
+): Promise<T> {
+	const retry = options.retry ?? true;
+	const run = (settings: ModelSettings) => {
+		const attempt = () =>
+			trackStagehandUsage(settings.modelName, () => runOnModel(settings));
+		return retry
+			? withRetry(`${route.task} on ${settings.modelName}`, attempt)
+			: attempt();
+	};
+	let failure: unknown;
+	try {
+		const result = await run(route.primary);
+		if (!route.fallback || !isFailure?.(result)) {
+			return result;
+		}
+		failure = (result as { message?: string }).message ?? "failed result";
+	} catch (error) {
+		if (!route.fallback || !retry) {
+			throw error;
+		}
+		failure = error;
+	}
+
+	const { kind, message } = classifyError(failure);
+	logger.warn(
+		{
+			task: route.task,
+			primary: route.primary.modelName,
+			fallback: route.fallback.modelName,
+			kind,
+			failure: message,
+		},
+		"Primary model failed, retrying with the fallback model.",
+	);
+	return run(route.fallback);
+}
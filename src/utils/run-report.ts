@@ -0,0 +1,125 @@
+import { existsSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import {
+	getRunDirectory,
+	getRunReportPath,
+	type RunEvent,
+	readRunEvents,
+} from "../stores/run-artifacts.store.js";
+
+const eventTitles: Record<RunEvent["type"], string> = {
+	node: "Node",
+	step: "Browser step",
+	agent_result: "Agent result",
+	interrupt: "Interrupt",
+	interrupt_answer: "Answer",
+	outcome: "Outcome",
+	error: "Error",
+};
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+async function embedScreenshot(
+	runDirectory: string,
+	screenshot: string | undefined,
+): Promise<string> {
+	const path = screenshot && join(runDirectory, screenshot);
+	if (!path || !existsSync(path)) {
+		return "";
+	}
+
+	const data = (await readFile(path)).toString("base64");
+	return `<img src="data:image/jpeg;base64,${data}" alt="${escapeHtml(screenshot)}" loading="lazy">`;
+}
+
+async function renderEvent(
+	runDirectory: string,
+	event: RunEvent,
+): Promise<string> {
+	const heading = [eventTitles[event.type], event.node, event.step, event.phase]
+		.filter(Boolean)
+		.map((part) => escapeHtml(String(part)))
+		.join(" &middot; ");
+	const pageUrl = event.pageUrl
+		? `<div class="url">${escapeHtml(event.pageUrl)}</div>`
+		: "";
+	const domLink = event.domSnapshot
+		? `<div><a href="${escapeHtml(event.domSnapshot)}">DOM snapshot</a></div>`
+		: "";
+	const data =
+		event.data === undefined
+			? ""
+			: `<details${event.type === "step" ? "" : " open"}><summary>Details</summary><pre>${escapeHtml(JSON.stringify(event.data, null, 2))}</pre></details>`;
+
+	return `<li class="event ${event.type}">
+<div class="time">${escapeHtml(event.timestamp)}</div>
+<h3>${heading}</h3>
+${pageUrl}
+${await embedScreenshot(runDirectory, event.screenshot)}
+${domLink}
+${data}
+</li>`;
+}
+
+/**
+ * Writes `report.html` for a thread: a self-contained timeline with
+ * screenshots embedded, so it can be opened offline or attached to an issue.
+ * DOM snapshots stay as files next to it.
+ */
+export async function writeRunReport(threadId: string): Promise<string> {
+	const runDirectory = getRunDirectory(threadId);
+	const events = await readRunEvents(threadId);
+	const outcome = [...events]
+		.reverse()
+		.find((event) => event.type === "outcome");
+
+	const items: string[] = [];
+	for (const event of events) {
+		items.push(await renderEvent(runDirectory, event));
+	}
+
+	const html = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Run ${escapeHtml(threadId)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 1100px; color: #222; }
+h1 { font-size: 1.4rem; }
+.summary { background: #f4f4f4; padding: 1rem; border-radius: 6px; }
+ol { list-style: none; padding: 0; border-left: 3px solid #ccc; }
+.event { margin: 0 0 1.5rem 1rem; }
+.event h3 { margin: 0.2rem 0; font-size: 1rem; }
+.time, .url { color: #666; font-size: 0.85rem; word-break: break-all; }
+.interrupt h3, .interrupt_answer h3 { color: #8a5a00; }
+.error h3 { color: #b00020; }
+.outcome h3 { color: #0b6b2b; }
+img { max-width: 100%; border: 1px solid #ddd; margin-top: 0.5rem; }
+pre { background: #f8f8f8; padding: 0.75rem; overflow-x: auto; font-size: 0.8rem; }
+</style>
+</head>
+<body>
+<h1>Run ${escapeHtml(threadId)}</h1>
+<div class="summary">
+<div>Events: ${events.length}</div>
+<div>Outcome: ${outcome ? `<pre>${escapeHtml(JSON.stringify(outcome.data, null, 2))}</pre>` : "not finished"}</div>
+</div>
+<ol>
+${items.join("\n")}
+</ol>
+</body>
+</html>
+`;
+
+	const reportPath = getRunReportPath(threadId);
+	await mkdir(runDirectory, { recursive: true });
+	await writeFile(reportPath, html);
+	return reportPath;
+}
@@ -0,0 +1,416 @@
+import { Command } from "@langchain/langgraph";
+import { agent } from "../agent.js";
+import { logger } from "../index.js";
+import { notifyRun } from "../notifiers/registry.js";
+import type { AgentStateType } from "../states/state.js";
+import { recordHistoryEvent } from "../stores/history.store.js";
+import { recordRunEvent } from "../stores/run-artifacts.store.js";
+import {
+	type InterruptAnswers,
+	type InterruptResolution,
+	resolveInterrupt,
+} from "./interrupt-policy.js";
+import { getInterruptPayload, type InterruptPayload } from "./interrupts.js";
+import { describeJobPosting } from "./job-posting.js";
+import { writeRunReport } from "./run-report.js";
+import { createUsageCallbackHandler, getRunUsage } from "./usage.js";
+
+export type RunStatus =
+	| "submitted"
+	| "unconfirmed"
+	| "skipped"
+	| "failed"
+	| "awaiting_input"
+	| "blocked";
+
+/**
+ * Process exit code per run outcome, so scripts can tell a confirmed
+ * submission from one that needs a human to check.
+ */
+export const runStatusExitCodes: Record<RunStatus, number> = {
+	submitted: 0,
+	skipped: 0,
+	failed: 1,
+	unconfirmed: 2,
+	awaiting_input: 3,
+	blocked: 4,
+};
+
+export type ThreadRunResult = {
+	threadId: string;
+	status: RunStatus;
+	values?: Partial<AgentStateType>;
+	interrupt?: InterruptPayload;
+};
+
+/**
+ * Produces the resume value for a pending interrupt. Returning `undefined`
+ * parks the thread so it can be answered later. The signal aborts the prompt
+ * when the interrupt policy's timeout passes.
+ */
+export type InterruptHandler = (
+	interruptPayload: InterruptPayload,
+	signal?: AbortSignal,
+) => Promise<Record<string, unknown> | undefined>;
+
+export type RunThreadOptions = {
+	answers?: InterruptAnswers;
+};
+
+type AgentInput = Parameters<typeof agent.invoke>[0];
+
+export type ThreadStatus = RunStatus | "incomplete";
+
+export type ThreadSummary = {
+	threadId: string;
+	status: ThreadStatus;
+	jobUrl?: string;
+	next: string[];
+	pendingInterrupt?: InterruptPayload;
+	updatedAt?: string;
+	values: Partial<AgentStateType>;
+};
+
+export function resolveRunStatus(values: Partial<AgentStateType>): RunStatus {
+	if (values.skipReason) {
+		return "skipped";
+	}
+
+	if (!values.submissionResult?.submitted) {
+		return "failed";
+	}
+
+	return values.submissionResult.confirmed ? "submitted" : "unconfirmed";
+}
+
+function threadConfig(threadId: string) {
+	return {
+		configurable: {
+			thread_id: threadId,
+		},
+	};
+}
+
+/**
+ * Reads the latest checkpoint of a thread. Threads that stopped mid-node
+ * (crash, Ctrl-C) are reported as `incomplete` and can be resumed.
+ */
+export async function getThreadSummary(
+	threadId: string,
+): Promise<ThreadSummary | undefined> {
+	const snapshot = await agent.getState(threadConfig(threadId));
+	if (!snapshot.createdAt) {
+		return undefined;
+	}
+
+	const values = snapshot.values as Partial<AgentStateType>;
+	const [pendingInterrupt] = snapshot.tasks.flatMap(
+		(task) => task.interrupts,
+	) as InterruptPayload[];
+
+	let status: ThreadStatus;
+	if (pendingInterrupt) {
+		status = "awaiting_input";
+	} else if (snapshot.next.length > 0) {
+		status = "incomplete";
+	} else {
+		status = resolveRunStatus(values);
+	}
+
+	return {
+		threadId,
+		status,
+		jobUrl: values.jobUrl,
+		next: [...snapshot.next],
+		pendingInterrupt,
+		updatedAt: snapshot.createdAt,
+		values,
+	};
+}
+
+/**
+ * Runs the graph like `agent.invoke`, recording a `node` run event as each
+ * node finishes so live views can follow the transitions, and the token
+ * usage of every chat model call.
+ */
+async function invokeGraph(
+	input: AgentInput,
+	threadId: string,
+): Promise<Awaited<ReturnType<typeof agent.invoke>>> {
+	let values: Record<string, unknown> = {};
+	let pendingInterrupt: unknown;
+	for await (const [mode, chunk] of await agent.stream(input, {
+		...threadConfig(threadId),
+		streamMode: ["updates", "values"],
+		callbacks: [createUsageCallbackHandler(threadId)],
+	})) {
+		const { __interrupt__: interrupts, ...rest } = chunk as Record<
+			string,
+			unknown
+		>;
+		if (interrupts) {
+			pendingInterrupt = interrupts;
+		} else if (mode === "values") {
+			values = rest;
+		} else {
+			for (const [node, update] of Object.entries(rest)) {
+				await recordRunEvent(threadId, {
+					type: "node",
+					node,
+					data: { updated: Object.keys(update ?? {}) },
+				});
+			}
+		}
+	}
+
+	return (
+		pendingInterrupt ? { ...values, __interrupt__: pendingInterrupt } : values
+	) as Awaited<ReturnType<typeof agent.invoke>>;
+}
+
+async function notifyInterrupt(
+	threadId: string,
+	interruptPayload: InterruptPayload,
+	values: Partial<AgentStateType> | undefined,
+	status?: RunStatus,
+): Promise<void> {
+	await notifyRun({
+		kind: "interrupt",
+		threadId,
+		status,
+		job: interruptPayload.value?.job ?? describeJobPosting(values?.jobPosting),
+		jobUrl: interruptPayload.value?.jobUrl ?? values?.jobUrl,
+		interruptType: interruptPayload.value?.type,
+		reason: interruptPayload.value?.reason,
+		message: interruptPayload.value?.message,
+	});
+}
+
+/**
+ * Answers an interrupt through its policy and records the exchange in the
+ * run artifacts. Interrupts handed to a person (the terminal prompt, or the
+ * API in server mode) send an `interrupt` notification first; `notified`
+ * tells the caller whether that happened.
+ */
+async function answerInterrupt(
+	threadId: string,
+	interruptPayload: InterruptPayload,
+	values: Partial<AgentStateType> | undefined,
+	onInterrupt: InterruptHandler,
+	options: RunThreadOptions,
+): Promise<InterruptResolution & { notified: boolean }> {
+	await recordRunEvent(threadId, {
+		type: "interrupt",
+		data: interruptPayload.value,
+	});
+	let notified = false;
+	const resolution = await resolveInterrupt(
+		interruptPayload,
+		async (payload, signal) => {
+			notified = true;
+			await notifyInterrupt(threadId, payload, values);
+			return onInterrupt(payload, signal);
+		},
+		options.answers ?? new Map(),
+	);
+	await recordRunEvent(threadId, {
+		type: "interrupt_answer",
+		data:
+			resolution.outcome === "resume"
+				? resolution.resumeValue
+				: resolution.outcome === "fail"
+					? `Interrupt policy "${resolution.action}" failed the run.`
+					: "Left unanswered; thread parked.",
+	});
+	return { ...resolution, notified };
+}
+
+/**
+ * Records how the run ended, regenerates the thread's HTML report and sends
+ * the matching notification unless `notify` is false.
+ */
+async function finishRun(
+	result: ThreadRunResult,
+	options: { notify?: boolean; error?: string } = {},
+): Promise<ThreadRunResult> {
+	await recordRunEvent(result.threadId, {
+		type: "outcome",
+		data: {
+			status: result.status,
+			job: result.values?.jobPosting,
+			skipReason: result.values?.skipReason,
+			fillStatus: result.values?.fillStatus,
+			submissionResult: result.values?.submissionResult,
+			pendingInterrupt: result.interrupt?.value?.type,
+			usage: (await getRunUsage(result.threadId)).total,
+		},
+	});
+
+	try {
+		const reportPath = await writeRunReport(result.threadId);
+		logger.info({ reportPath }, "Run report written");
+	} catch (error) {
+		logger.warn({ error }, "Failed to write run report");
+	}
+
+	if (options.notify !== false) {
+		if (result.interrupt) {
+			await notifyInterrupt(
+				result.threadId,
+				result.interrupt,
+				result.values,
+				result.status,
+			);
+		} else {
+			await notifyRun({
+				kind: result.status === "failed" ? "failed" : "finished",
+				threadId: result.threadId,
+				status: result.status,
+				job: describeJobPosting(result.values?.jobPosting),
+				jobUrl: result.values?.jobUrl,
+				detail:
+					options.error ??
+					result.values?.skipReason ??
+					result.values?.submissionResult?.message ??
+					result.values?.fillStatus?.message,
+			});
+		}
+	}
+
+	return result;
+}
+
+export async function runThread(
+	input: AgentInput,
+	threadId: string,
+	onInterrupt: InterruptHandler,
+	options: RunThreadOptions = {},
+): Promise<ThreadRunResult> {
+	const config = threadConfig(threadId);
+
+	let result: Awaited<ReturnType<typeof agent.invoke>>;
+	try {
+		result = await invokeGraph(input, threadId);
+
+		while (true) {
+			const interruptPayload = getInterruptPayload(result);
+			if (!interruptPayload) {
+				break;
+			}
+
+			await new Promise((resolve) => setTimeout(resolve, 1000));
+
+			const resolution = await answerInterrupt(
+				threadId,
+				interruptPayload,
+				result,
+				onInterrupt,
+				options,
+			);
+			if (resolution.outcome !== "resume") {
+				return finishRun(
+					{
+						threadId,
+						status:
+							resolution.outcome === "fail" ? "blocked" : "awaiting_input",
+						values: result,
+						interrupt: interruptPayload,
+					},
+					{ notify: !resolution.notified },
+				);
+			}
+
+			result = await invokeGraph(
+				new Command({ resume: resolution.resumeValue }),
+				threadId,
+			);
+		}
+	} catch (error) {
+		const snapshot = await agent.getState(config);
+		await recordHistoryEvent(
+			threadId,
+			snapshot.values as Partial<AgentStateType>,
+			"failed",
+			{ detail: error instanceof Error ? error.message : String(error) },
+		);
+		await recordRunEvent(threadId, {
+			type: "error",
+			data: { message: error instanceof Error ? error.message : String(error) },
+		});
+		await finishRun(
+			{
+				threadId,
+				status: "failed",
+				values: snapshot.values as Partial<AgentStateType>,
+			},
+			{ error: error instanceof Error ? error.message : String(error) },
+		);
+		throw error;
+	}
+
+	return finishRun({
+		threadId,
+		status: resolveRunStatus(result),
+		values: result,
+	});
+}
+
+/**
+ * Re-attaches to a checkpointed thread: answers its pending interrupt if it
+ * has one, otherwise continues from the last completed node.
+ */
+export async function resumeThread(
+	threadId: string,
+	onInterrupt: InterruptHandler,
+	options: RunThreadOptions = {},
+): Promise<ThreadRunResult> {
+	const summary = await getThreadSummary(threadId);
+	if (!summary) {
+		throw new Error(`No checkpoint found for thread ${threadId}.`);
+	}
+
+	if (summary.pendingInterrupt) {
+		const resolution = await answerInterrupt(
+			threadId,
+			summary.pendingInterrupt,
+			summary.values,
+			onInterrupt,
+			options,
+		);
+		if (resolution.outcome !== "resume") {
+			const status =
+				resolution.outcome === "fail" ? "blocked" : "awaiting_input";
+			if (!resolution.notified) {
+				await notifyInterrupt(
+					threadId,
+					summary.pendingInterrupt,
+					summary.values,
+					status,
+				);
+			}
+			return {
+				threadId,
+				status,
+				values: summary.values,
+				interrupt: summary.pendingInterrupt,
+			};
+		}
+
+		return runThread(
+			new Command({ resume: resolution.resumeValue }),
+			threadId,
+			onInterrupt,
+			options,
+		);
+	}
+
+	if (summary.status !== "incomplete") {
+		return {
+			threadId,
+			status: summary.status,
+			values: summary.values,
+		};
+	}
+
+	return runThread(null, threadId, onInterrupt, options);
+}
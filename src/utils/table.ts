@@ -0,0 +1,56 @@
+export type TableColumn<Row> = {
+	header: string;
+	value: (row: Row) => string | number | undefined;
+};
+
+function cellText<Row>(column: TableColumn<Row>, row: Row): string {
+	const value = column.value(row);
+	return value === undefined ? "" : String(value).replace(/\s+/g, " ");
+}
+
+/**
+ * Renders rows as a plain-text table for terminal output.
+ */
+export function formatTable<Row>(
+	columns: TableColumn<Row>[],
+	rows: Row[],
+): string {
+	const cells = rows.map((row) =>
+		columns.map((column) => cellText(column, row)),
+	);
+	const widths = columns.map((column, index) =>
+		Math.max(
+			column.header.length,
+			...cells.map((rowCells) => rowCells[index]?.length ?? 0),
+		),
+	);
+
+	const formatLine = (values: string[]) =>
+		values
+			.map((value, index) => value.padEnd(widths[index] ?? 0))
+			.join(" | ")
+			.trimEnd();
+
+	return [
+		formatLine(columns.map((column) => column.header)),
+		widths.map((width) => "-".repeat(width)).join("-+-"),
+		...cells.map(formatLine),
+	].join("\n");
+}
+
+function escapeCsvCell(value: string): string {
+	return /[",\n\r]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value;
+}
+
+export function formatCsv<Row>(
+	columns: TableColumn<Row>[],
+	rows: Row[],
+): string {
+	const lines = [
+		columns.map((column) => escapeCsvCell(column.header)),
+		...rows.map((row) =>
+			columns.map((column) => escapeCsvCell(String(column.value(row) ?? ""))),
+		),
+	];
+	return `${lines.map((line) => line.join(",")).join("\n")}\n`;
+}
@@ -0,0 +1,10 @@
+/**
+ * Reads the LangGraph thread ID from a node's runnable config.
+ */
+export function getThreadId(config: {
+	configurable?: unknown;
+}): string | undefined {
+	const threadId = (config.configurable as { thread_id?: unknown } | undefined)
+		?.thread_id;
+	return typeof threadId === "string" ? threadId : undefined;
+}
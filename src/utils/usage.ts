@@ -0,0 +1,327 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import {
+	BaseCallbackHandler,
+	type CallbackHandlerMethods,
+} from "@langchain/core/callbacks/base";
+import type { LLMResult } from "@langchain/core/outputs";
+import { getConfig } from "@langchain/langgraph";
+import { logger } from "../index.js";
+import {
+	readUsage,
+	recordUsage,
+	type UsageRecord,
+} from "../stores/usage.store.js";
+import { appConfig, type ModelPrice } from "./config.js";
+import { getRunningStagehand } from "./instances.js";
+import { parseModelName } from "./model-provider.js";
+import { formatTable, type TableColumn } from "./table.js";
+import { getThreadId } from "./thread.js";
+
+export type UsageTotals = {
+	calls: number;
+	inputTokens: number;
+	outputTokens: number;
+	steps: number;
+	/** Estimated from the `prices` table; unpriced models count as zero. */
+	costUsd: number;
+};
+
+export type RunUsage = {
+	total: UsageTotals;
+	byNode: Record<string, UsageTotals>;
+	byModel: Record<string, UsageTotals>;
+	/** Models used by the run that have no entry in the `prices` table. */
+	unpricedModels: string[];
+};
+
+type UsageContext = { threadId?: string; node?: string; task?: string };
+
+function emptyTotals(): UsageTotals {
+	return { calls: 0, inputTokens: 0, outputTokens: 0, steps: 0, costUsd: 0 };
+}
+
+/**
+ * Looks a model up in the `prices` table, by its exact name or with the
+ * provider prefix left off either side.
+ */
+function findModelPrice(model: string): ModelPrice | undefined {
+	const name = parseModelName(model).modelName;
+	return (
+		appConfig.prices[model] ??
+		Object.entries(appConfig.prices).find(
+			([key]) => parseModelName(key).modelName === name,
+		)?.[1]
+	);
+}
+
+export function estimateCostUsd(
+	model: string,
+	inputTokens: number,
+	outputTokens: number,
+): number | undefined {
+	const price = findModelPrice(model);
+	return price
+		? (inputTokens * price.input + outputTokens * price.output) / 1_000_000
+		: undefined;
+}
+
+/**
+ * Folds usage records into totals for the run, each node and each model.
+ */
+export function summarizeUsage(records: UsageRecord[]): RunUsage {
+	const usage: RunUsage = {
+		total: emptyTotals(),
+		byNode: {},
+		byModel: {},
+		unpricedModels: [],
+	};
+	for (const record of records) {
+		const costUsd = estimateCostUsd(
+			record.model,
+			record.inputTokens,
+			record.outputTokens,
+		);
+		if (costUsd === undefined && !usage.unpricedModels.includes(record.model)) {
+			usage.unpricedModels.push(record.model);
+		}
+
+		const node = record.node ?? "(outside graph)";
+		usage.byNode[node] ??= emptyTotals();
+		usage.byModel[record.model] ??= emptyTotals();
+		for (const totals of [
+			usage.total,
+			usage.byNode[node],
+			usage.byModel[record.model],
+		]) {
+			totals.calls += 1;
+			totals.inputTokens += record.inputTokens;
+			totals.outputTokens += record.outputTokens;
+			totals.steps += record.steps;
+			totals.costUsd += costUsd ?? 0;
+		}
+	}
+
+	return usage;
+}
+
+/**
+ * Usage of a thread so far. `excludeTask` leaves out the calls of one
+ * LangGraph task, so a node replayed after an interrupt sees the same
+ * usage it saw the first time.
+ */
+export async function getRunUsage(
+	threadId: string,
+	options: { excludeTask?: string } = {},
+): Promise<RunUsage> {
+	const records = await readUsage(threadId);
+	return summarizeUsage(
+		options.excludeTask
+			? records.filter((record) => record.task !== options.excludeTask)
+			: records,
+	);
+}
+
+/** The thread, node and task of the graph node currently running, if any. */
+export function getUsageContext(): UsageContext {
+	try {
+		const config = getConfig();
+		return {
+			threadId: getThreadId(config),
+			node: config.metadata?.langgraph_node as string | undefined,
+			task: config.metadata?.langgraph_checkpoint_ns as string | undefined,
+		};
+	} catch {
+		return {};
+	}
+}
+
+// Set while a Stagehand call is tracked, e.g. an agent whose tools call
+// `extract`; the metrics of the outer call already include the inner one.
+const trackedCall = new AsyncLocalStorage<true>();
+
+/**
+ * Runs a Stagehand call and records its tokens, read from the change in
+ * Stagehand's metrics or the agent result's own usage, and its browser
+ * actions.
+ */
+export async function trackStagehandUsage<T>(
+	model: string,
+	run: () => Promise<T>,
+): Promise<T> {
+	const { threadId, node, task } = getUsageContext();
+	const stagehand = getRunningStagehand();
+	if (!threadId || !stagehand || trackedCall.getStore()) {
+		return run();
+	}
+
+	const before = await stagehand.metrics;
+	const result = await trackedCall.run(true, run);
+	const after = await stagehand.metrics;
+
+	const { actions, usage } = (result ?? {}) as {
+		actions?: unknown;
+		usage?: { input_tokens?: number; output_tokens?: number };
+	};
+	let inputTokens = after.totalPromptTokens - before.totalPromptTokens;
+	let outputTokens = after.totalCompletionTokens - before.totalCompletionTokens;
+	if (inputTokens === 0 && outputTokens === 0 && usage) {
+		inputTokens = usage.input_tokens ?? 0;
+		outputTokens = usage.output_tokens ?? 0;
+	}
+
+	await recordUsage(threadId, {
+		node,
+		task,
+		model,
+		source: "browser",
+		inputTokens,
+		outputTokens,
+		steps: Array.isArray(actions) ? actions.length : 0,
+	});
+	return result;
+}
+
+function readTokenUsage(output: LLMResult): {
+	inputTokens: number;
+	outputTokens: number;
+} {
+	let inputTokens = 0;
+	let outputTokens = 0;
+	for (const generation of output.generations.flat()) {
+		const usage = (
+			generation as {
+				message?: {
+					usage_metadata?: { input_tokens: number; output_tokens: number };
+				};
+			}
+		).message?.usage_metadata;
+		inputTokens += usage?.input_tokens ?? 0;
+		outputTokens += usage?.output_tokens ?? 0;
+	}
+	if (inputTokens === 0 && outputTokens === 0) {
+		const tokenUsage = output.llmOutput?.tokenUsage as
+			| { promptTokens?: number; completionTokens?: number }
+			| undefined;
+		inputTokens = tokenUsage?.promptTokens ?? 0;
+		outputTokens = tokenUsage?.completionTokens ?? 0;
+	}
+
+	return { inputTokens, outputTokens };
+}
+
+/**
+ * LangChain callbacks recording the tokens of every chat model call made
+ * by the graph's nodes for the thread.
+ */
+export function createUsageCallbackHandler(
+	threadId: string,
+): BaseCallbackHandler {
+	const calls = new Map<
+		string,
+		Omit<UsageContext, "threadId"> & { model: string }
+	>();
+	const methods: CallbackHandlerMethods = {
+		handleChatModelStart: (
+			llm,
+			_messages,
+			runId,
+			_parentRunId,
+			extraParams,
+			_tags,
+			metadata,
+		) => {
+			const invocationParams = extraParams?.invocation_params as
+				| { model?: string; model_name?: string }
+				| undefined;
+			calls.set(runId, {
+				node: metadata?.langgraph_node as string | undefined,
+				task: metadata?.langgraph_checkpoint_ns as string | undefined,
+				model: String(
+					metadata?.ls_model_name ??
+						invocationParams?.model ??
+						invocationParams?.model_name ??
+						llm.id[llm.id.length - 1],
+				),
+			});
+		},
+		handleLLMEnd: async (output, runId) => {
+			const call = calls.get(runId);
+			calls.delete(runId);
+			if (!call) {
+				return;
+			}
+
+			await recordUsage(threadId, {
+				...call,
+				source: "llm",
+				...readTokenUsage(output),
+				steps: 0,
+			});
+		},
+		handleLLMError: (_error, runId) => {
+			calls.delete(runId);
+		},
+	};
+
+	const handler = BaseCallbackHandler.fromMethods(methods);
+	// Record usage before the node moves on, so budget checks see it.
+	handler.awaitHandlers = true;
+	return handler;
+}
+
+export function formatUsd(value: number): string {
+	return `$${value.toFixed(value < 1 ? 4 : 2)}`;
+}
+
+type UsageRow = { name: string; totals: UsageTotals };
+
+const usageColumns = (nameHeader: string): TableColumn<UsageRow>[] => [
+	{ header: nameHeader, value: (row) => row.name },
+	{ header: "Calls", value: (row) => row.totals.calls },
+	{ header: "Steps", value: (row) => row.totals.steps },
+	{ header: "Input tokens", value: (row) => row.totals.inputTokens },
+	{ header: "Output tokens", value: (row) => row.totals.outputTokens },
+	{ header: "Cost", value: (row) => formatUsd(row.totals.costUsd) },
+];
+
+/**
+ * Renders the run's usage as per-node and per-model tables for the
+ * terminal.
+ */
+export function formatUsageBreakdown(usage: RunUsage): string {
+	if (usage.total.calls === 0) {
+		return "No model usage recorded.";
+	}
+
+	const rows = (entries: Record<string, UsageTotals>) =>
+		Object.entries(entries).map(([name, totals]) => ({ name, totals }));
+	const sections = [
+		formatTable(usageColumns("Node"), [
+			...rows(usage.byNode),
+			{ name: "Total", totals: usage.total },
+		]),
+		formatTable(usageColumns("Model"), rows(usage.byModel)),
+	];
+	if (usage.unpricedModels.length > 0) {
+		sections.push(
+			`No price configured for ${usage.unpricedModels.join(", ")}; add entries under \`prices\` to count them in the cost.`,
+		);
+	}
+
+	return sections.join("\n\n");
+}
+
+/** Logs the cost warning once per model, not once per call. */
+const warnedUnpricedModels = new Set<string>();
+
+export function warnUnpricedModels(usage: RunUsage): void {
+	for (const model of usage.unpricedModels) {
+		if (!warnedUnpricedModels.has(model)) {
+			warnedUnpricedModels.add(model);
+			logger.warn(
+				{ model },
+				"No price configured for this model; its calls count as free towards the cost budget.",
+			);
+		}
+	}
+}